@@ -0,0 +1,339 @@
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import { admin } from '@/firebase/admin';
+import { sanitizePromptName } from '@/ai/guardrails';
+import type {
+  BudgetPeriod,
+  Currency,
+  Expense,
+  ExpenseCategory,
+  Income,
+  MonthlyReport,
+  ReportChange,
+  SavingsGoal,
+  Subcategory,
+  UserData,
+} from '@/lib/types';
+import { resolveAllocation } from '@/lib/allocation';
+import { EXPENSE_CATEGORIES, getBudgetSummary } from '@/lib/budget';
+import { formatBudgetPeriod, getBudgetPeriod, shiftBudgetPeriod } from '@/lib/budget-period';
+import { getExpenseDate } from '@/lib/expenses';
+import { getGoalContributions, getGoalProgress, toBaseGoals } from '@/lib/goals';
+import { toBaseCurrency } from '@/lib/exchange-rates';
+import { getPeriodIncome } from '@/lib/income';
+import { parseCalendarDate, toCalendarDate } from '@/lib/recurrence';
+import { toUserDay, toUserInstant, type ClientClock } from '@/lib/client-clock';
+import { isTrashed } from '@/lib/trash';
+
+/**
+ * Server-side lookups behind the advisor's tools and the monthly report. Everything is read with the
+ * Admin SDK for a verified uid, and amounts come back in the base currency. Periods and dates follow
+ * the client's clock, so answers match the dashboard whatever time zone the server runs in.
+ */
+
+// Searches filter names in memory, so cap how many expenses one search reads.
+const SEARCH_SCAN_LIMIT = 2000;
+export const MAX_SEARCH_RESULTS = 50;
+
+function getUserDocRef(uid: string) {
+  return admin.firestore().collection('users').doc(uid);
+}
+
+function roundAmount(amount: number) {
+  return Math.round(amount * 100) / 100;
+}
+
+function toExpenses(snapshot: FirebaseFirestore.QuerySnapshot) {
+  return snapshot.docs
+    .map(doc => ({ id: doc.id, ...doc.data() }) as Expense)
+    .filter(expense => !isTrashed(expense));
+}
+
+function describePeriod(period: BudgetPeriod) {
+  return {
+    label: formatBudgetPeriod(period),
+    start: toCalendarDate(period.start),
+    end: toCalendarDate(addDays(period.end, -1)),
+  };
+}
+
+async function getUserData(uid: string) {
+  const userDoc = await getUserDocRef(uid).get();
+  if (!userDoc.exists) {
+    throw new Error('User data not found.');
+  }
+  return userDoc.data() as UserData;
+}
+
+function getBaseCurrency(userData: UserData): Currency {
+  return userData.currency || 'USD';
+}
+
+// The instants a calendar period covers on the user's clock, for comparing with stored timestamps.
+function toInstantPeriod(period: BudgetPeriod, clock: ClientClock): BudgetPeriod {
+  return {
+    ...period,
+    start: toUserInstant(period.start, clock.timezoneOffset),
+    end: toUserInstant(period.end, clock.timezoneOffset),
+  };
+}
+
+// Accounts whose legacy income field hasn't been migrated still use it for every period.
+async function getIncomeForPeriod(uid: string, userData: UserData, period: BudgetPeriod, clock: ClientClock) {
+  if (!userData.incomesMigrated) {
+    return { income: userData.income || 0, missingRates: [] };
+  }
+  const incomesSnapshot = await getUserDocRef(uid).collection('incomes').get();
+  const { items: incomes, missingRates } = toBaseCurrency(
+    incomesSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }) as Income),
+    getBaseCurrency(userData),
+    userData.exchangeRates
+  );
+  return { income: getPeriodIncome(incomes, toInstantPeriod(period, clock)), missingRates };
+}
+
+async function getPeriodExpenses(uid: string, userData: UserData, period: BudgetPeriod, clock: ClientClock) {
+  const { start, end } = toInstantPeriod(period, clock);
+  const snapshot = await getUserDocRef(uid)
+    .collection('expenses')
+    .where('date', '>=', start)
+    .where('date', '<', end)
+    .get();
+  return toBaseCurrency(toExpenses(snapshot), getBaseCurrency(userData), userData.exchangeRates);
+}
+
+// The budget period `periodsAgo` before the user's current one (0 is the current period), in calendar days.
+export function getAdvisorPeriod(userData: Pick<UserData, 'periodStartDay'>, clock: ClientClock, periodsAgo = 0) {
+  return shiftBudgetPeriod(getBudgetPeriod(parseCalendarDate(clock.today), userData.periodStartDay), -periodsAgo);
+}
+
+export async function getCategoryTotals(uid: string, clock: ClientClock, periodsAgo = 0) {
+  const userData = await getUserData(uid);
+  const period = getAdvisorPeriod(userData, clock, periodsAgo);
+  const [{ items: expenses, missingRates }, subcategoriesSnapshot] = await Promise.all([
+    getPeriodExpenses(uid, userData, period, clock),
+    getUserDocRef(uid).collection('subcategories').get(),
+  ]);
+  const subcategoryNames = new Map(
+    subcategoriesSnapshot.docs.map(doc => [doc.id, sanitizePromptName((doc.data() as Omit<Subcategory, 'id'>).name)])
+  );
+
+  const bySubcategory = new Map<string, { category: ExpenseCategory; subcategory: string; total: number }>();
+  expenses.forEach((expense) => {
+    const subcategory = (expense.subcategoryId && subcategoryNames.get(expense.subcategoryId)) || 'Uncategorized';
+    const key = `${expense.category}|${subcategory}`;
+    const entry = bySubcategory.get(key) ?? { category: expense.category, subcategory, total: 0 };
+    entry.total += expense.amount;
+    bySubcategory.set(key, entry);
+  });
+
+  const categories = Object.fromEntries(
+    EXPENSE_CATEGORIES.map((category) => [
+      category,
+      roundAmount(expenses.filter((e) => e.category === category).reduce((acc, e) => acc + e.amount, 0)),
+    ])
+  ) as Record<ExpenseCategory, number>;
+
+  return {
+    period: describePeriod(period),
+    currency: getBaseCurrency(userData),
+    categories,
+    total: roundAmount(EXPENSE_CATEGORIES.reduce((acc, category) => acc + categories[category], 0)),
+    expenseCount: expenses.length,
+    bySubcategory: Array.from(bySubcategory.values())
+      .map((entry) => ({ ...entry, total: roundAmount(entry.total) }))
+      .sort((a, b) => b.total - a.total),
+    missingRates,
+  };
+}
+
+export interface ExpenseSearch {
+  text?: string;
+  // Inclusive yyyy-MM-dd calendar days.
+  from?: string;
+  to?: string;
+  category?: ExpenseCategory;
+  limit?: number;
+}
+
+export async function searchExpenses(uid: string, clock: ClientClock, search: ExpenseSearch) {
+  const userData = await getUserData(uid);
+  const currency = getBaseCurrency(userData);
+
+  let expensesQuery: FirebaseFirestore.Query = getUserDocRef(uid).collection('expenses');
+  if (search.from) {
+    expensesQuery = expensesQuery.where('date', '>=', toUserInstant(parseCalendarDate(search.from), clock.timezoneOffset));
+  }
+  if (search.to) {
+    expensesQuery = expensesQuery.where('date', '<', toUserInstant(addDays(parseCalendarDate(search.to), 1), clock.timezoneOffset));
+  }
+  const snapshot = await expensesQuery.orderBy('date', 'desc').limit(SEARCH_SCAN_LIMIT).get();
+
+  const text = search.text?.trim().toLowerCase();
+  const { items: expenses, missingRates } = toBaseCurrency(
+    toExpenses(snapshot).filter(
+      (expense) =>
+        (!text || expense.name.toLowerCase().includes(text)) &&
+        (!search.category || expense.category === search.category)
+    ),
+    currency,
+    userData.exchangeRates
+  );
+  const limit = Math.min(search.limit || 25, MAX_SEARCH_RESULTS);
+
+  return {
+    currency,
+    matchCount: expenses.length,
+    matchTotal: roundAmount(expenses.reduce((acc, expense) => acc + expense.amount, 0)),
+    // Set when the date range held more expenses than one search reads.
+    truncated: snapshot.size === SEARCH_SCAN_LIMIT,
+    expenses: expenses.slice(0, limit).map((expense) => ({
+      id: expense.id,
+      name: sanitizePromptName(expense.name),
+      amount: roundAmount(expense.amount),
+      category: expense.category,
+      date: toCalendarDate(toUserDay(getExpenseDate(expense), clock.timezoneOffset)),
+    })),
+    missingRates,
+  };
+}
+
+async function getPeriodSummary(uid: string, userData: UserData, period: BudgetPeriod, clock: ClientClock) {
+  const allocation = resolveAllocation(userData.allocation);
+  const [periodIncome, periodExpenses] = await Promise.all([
+    getIncomeForPeriod(uid, userData, period, clock),
+    getPeriodExpenses(uid, userData, period, clock),
+  ]);
+  return {
+    summary: getBudgetSummary(periodIncome.income, allocation, periodExpenses.items),
+    missingRates: Array.from(new Set([...periodExpenses.missingRates, ...periodIncome.missingRates])),
+  };
+}
+
+export async function getBudgetStatus(uid: string, clock: ClientClock) {
+  const userData = await getUserData(uid);
+  const period = getAdvisorPeriod(userData, clock);
+  const { summary, missingRates } = await getPeriodSummary(uid, userData, period, clock);
+
+  return {
+    period: describePeriod(period),
+    daysLeft: differenceInCalendarDays(period.end, parseCalendarDate(clock.today)),
+    currency: getBaseCurrency(userData),
+    income: roundAmount(summary.income),
+    categories: EXPENSE_CATEGORIES.map((category) => {
+      const { percent, allocated, spent } = summary.categories[category];
+      return {
+        category,
+        allocationPercent: percent,
+        allocated: roundAmount(allocated),
+        spent: roundAmount(spent),
+        remaining: roundAmount(allocated - spent),
+        percentUsed: allocated > 0 ? Math.round((spent / allocated) * 100) : null,
+      };
+    }),
+    totalSpent: roundAmount(summary.totalSpent),
+    balance: roundAmount(summary.balance),
+    savingsRate: Math.round(summary.savingsRate),
+    missingRates,
+  };
+}
+
+// Every savings goal with its progress so far, counting contributions from all periods.
+export async function getGoalStatuses(uid: string, clock: ClientClock) {
+  const userData = await getUserData(uid);
+  const userDocRef = getUserDocRef(uid);
+  const [goalsSnapshot, contributionsSnapshot] = await Promise.all([
+    userDocRef.collection('savingsGoals').get(),
+    userDocRef.collection('expenses').where('goalId', '!=', null).get(),
+  ]);
+  const baseCurrency = getBaseCurrency(userData);
+  const expenses = toBaseCurrency(toExpenses(contributionsSnapshot), baseCurrency, userData.exchangeRates).items;
+  const { goals } = toBaseGoals(
+    goalsSnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as SavingsGoal),
+    baseCurrency,
+    userData.exchangeRates
+  );
+
+  return goals.map((goal) => {
+    const progress = getGoalProgress(goal, getGoalContributions(goal, expenses), parseCalendarDate(clock.today));
+    return {
+      id: goal.id,
+      name: sanitizePromptName(goal.name),
+      saved: roundAmount(progress.saved),
+      target: roundAmount(goal.targetAmount),
+      percent: Math.round(progress.percent),
+      status: progress.status,
+      targetDate: goal.targetDate,
+      projectedDate: progress.projectedDate ? toCalendarDate(progress.projectedDate) : null,
+    };
+  });
+}
+
+// How many subcategory movers a report lists.
+const MAX_REPORT_CHANGES = 5;
+
+/**
+ * The figures behind a monthly report for the period `periodsAgo` before the
+ * current one, compared with the period before it. The written summary and
+ * suggestions are added by the report flow.
+ */
+export async function getMonthlyReportData(
+  uid: string,
+  clock: ClientClock,
+  periodsAgo = 1
+): Promise<Omit<MonthlyReport, 'id' | 'summary' | 'suggestions' | 'createdAt'>> {
+  const userData = await getUserData(uid);
+  const period = getAdvisorPeriod(userData, clock, periodsAgo);
+  const [{ summary }, current, previous, goals] = await Promise.all([
+    getPeriodSummary(uid, userData, period, clock),
+    getCategoryTotals(uid, clock, periodsAgo),
+    getCategoryTotals(uid, clock, periodsAgo + 1),
+    getGoalStatuses(uid, clock),
+  ]);
+
+  const key = (entry: { category: ExpenseCategory; subcategory: string }) => `${entry.category}|${entry.subcategory}`;
+  const previousTotals = new Map(previous.bySubcategory.map((entry) => [key(entry), entry.total]));
+  const currentKeys = new Set(current.bySubcategory.map(key));
+  const topChanges: ReportChange[] = [
+    ...current.bySubcategory,
+    // Subcategories that dropped to nothing are changes too.
+    ...previous.bySubcategory.filter((entry) => !currentKeys.has(key(entry))).map((entry) => ({ ...entry, total: 0 })),
+  ]
+    .map((entry) => {
+      const previousTotal = previousTotals.get(key(entry)) ?? 0;
+      return {
+        label: entry.subcategory === 'Uncategorized' ? `${entry.category} (no subcategory)` : entry.subcategory,
+        category: entry.category,
+        previous: previousTotal,
+        current: entry.total,
+        change: roundAmount(entry.total - previousTotal),
+      };
+    })
+    .filter((change) => change.change !== 0)
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change))
+    .slice(0, MAX_REPORT_CHANGES);
+
+  const categories = EXPENSE_CATEGORIES.map((category) => ({
+    category,
+    allocated: roundAmount(summary.categories[category].allocated),
+    spent: current.categories[category],
+    previousSpent: previous.categories[category],
+  }));
+
+  return {
+    periodStart: current.period.start,
+    periodEnd: current.period.end,
+    periodLabel: current.period.label,
+    currency: getBaseCurrency(userData),
+    isPartial: period.end > parseCalendarDate(clock.today),
+    income: roundAmount(summary.income),
+    totalSpent: current.total,
+    previousTotalSpent: previous.total,
+    categories,
+    topChanges,
+    // Savings over its allocation is a good thing, so only Needs and Wants count.
+    overAllocation: categories
+      .filter(({ category, allocated, spent }) => category !== 'Savings' && spent > allocated)
+      .map(({ category, allocated, spent }) => ({ category, allocated, spent, over: roundAmount(spent - allocated) })),
+    goals,
+  };
+}
@@ -1,2 +1,6 @@
 // Flows will be imported for their side effects in this file.
 import './flows/financial-advisor-flow';
+import './flows/categorize-expense-flow';
+import './flows/parse-expense-flow';
+import './flows/extract-receipt-flow';
+import './flows/monthly-report-flow';
@@ -0,0 +1,72 @@
+'use server';
+
+/**
+ * @fileOverview Suggests a category and subcategory for a new expense.
+ *
+ * The user's own corrections are passed in as examples so suggestions follow
+ * how they file things rather than a generic rule.
+ */
+
+import { ai, trackUsage, UsageSchema } from '@/ai/genkit';
+import { z } from 'genkit';
+
+const CategorySchema = z.enum(['Needs', 'Wants', 'Savings']);
+
+const CategorizeExpenseInputSchema = z.object({
+  name: z.string().describe('The expense name as the user typed it.'),
+  amount: z.number().optional().describe('The amount, if entered yet.'),
+  currency: z.string().describe('The currency of the amount.'),
+  subcategories: z
+    .array(z.object({ id: z.string(), name: z.string(), parent: CategorySchema }))
+    .describe("The user's subcategories; each belongs to one category."),
+  corrections: z
+    .array(z.object({ name: z.string(), category: CategorySchema, subcategory: z.string().optional() }))
+    .describe('Expenses the user re-filed after a wrong suggestion, most recent first.'),
+});
+
+const CategorizeExpenseOutputSchema = z.object({
+  category: CategorySchema,
+  subcategoryId: z.string().optional().describe('The ID of a subcategory of `category`; omit when none fits.'),
+  confidence: z.number().describe('How sure you are, from 0 to 1.'),
+});
+
+const categorizeExpensePrompt = ai.definePrompt({
+  name: 'categorizeExpensePrompt',
+  input: { schema: CategorizeExpenseInputSchema },
+  output: { schema: CategorizeExpenseOutputSchema },
+  prompt: `You file expenses into a 50/30/20-style budget. Needs are essentials the user can't easily avoid (rent, groceries, utilities, insurance, commuting). Wants are discretionary (eating out, entertainment, hobbies, shopping). Savings are money set aside or invested (transfers to savings, investments, extra debt repayments).
+
+Pick the category for this expense and, if one fits, a subcategory of that category by its ID.
+{{#if corrections}}
+
+This user has corrected earlier suggestions. Follow their habits over the general rules above when an expense is similar:
+{{#each corrections}}
+  "{{name}}" → {{category}}{{#if subcategory}} / {{subcategory}}{{/if}}
+{{/each}}
+{{/if}}
+{{#if subcategories}}
+
+Subcategories:
+{{#each subcategories}}
+  {{id}}: {{name}} ({{parent}})
+{{/each}}
+{{/if}}
+
+Give a confidence below 0.5 when the name is ambiguous (a gym membership could be either a Need or a Want).
+
+Expense: "{{name}}"{{#if amount}}, {{amount}} {{currency}}{{/if}}
+`,
+});
+
+export const categorizeExpenseFlow = ai.defineFlow(
+  {
+    name: 'categorizeExpenseFlow',
+    inputSchema: CategorizeExpenseInputSchema,
+    outputSchema: CategorizeExpenseOutputSchema.extend({ usage: UsageSchema }),
+  },
+  async (input) => {
+    const { usage, middleware } = trackUsage();
+    const { output } = await categorizeExpensePrompt(input, { use: [middleware] });
+    return { ...output!, usage };
+  }
+);
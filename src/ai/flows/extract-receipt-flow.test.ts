@@ -0,0 +1,100 @@
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { ModelResponseData } from 'genkit/model';
+import { ai } from '@/ai/genkit';
+import { extractReceiptFlow } from '@/ai/flows/extract-receipt-flow';
+import { toReceiptExtraction } from '@/lib/receipts';
+
+/**
+ * Runs the receipt flow against a local stub model instead of Gemini, then
+ * checks what the route would keep of each reading.
+ */
+
+const TODAY = '2026-10-19';
+const PHOTO = 'data:image/jpeg;base64,/9j/4AAQSkZJRg==';
+
+// The googleAI plugin still initialises alongside the stub, and only checks that a key is set.
+const originalApiKey = process.env.GEMINI_API_KEY;
+process.env.GEMINI_API_KEY ??= 'test-key';
+
+let stubResponse: ModelResponseData;
+let stubRequests = 0;
+
+ai.defineModel(
+  { name: 'stubReceiptModel', supports: { media: true, output: ['json'] } },
+  async () => {
+    stubRequests++;
+    return stubResponse;
+  }
+);
+ai.registry.registerValue('defaultModel', 'defaultModel', 'stubReceiptModel');
+
+function respondWith(text: string) {
+  stubResponse = {
+    message: { role: 'model', content: [{ text }] },
+    finishReason: 'stop',
+    usage: { inputTokens: 1200, outputTokens: 40 },
+  };
+}
+
+async function extract(reading: unknown) {
+  respondWith(typeof reading === 'string' ? reading : JSON.stringify(reading));
+  const result = await extractReceiptFlow({ photoDataUri: PHOTO, today: TODAY, currency: 'USD' });
+  return { result, extraction: toReceiptExtraction(result, TODAY) };
+}
+
+describe('extractReceiptFlow', () => {
+  beforeEach(() => {
+    stubRequests = 0;
+  });
+
+  after(() => {
+    if (originalApiKey === undefined) delete process.env.GEMINI_API_KEY;
+  });
+
+  it('passes a clean reading through and reports the tokens used', async () => {
+    const { result, extraction } = await extract({ merchant: 'Blue Bottle Coffee', total: 12.5, currency: 'USD', date: '2026-10-18' });
+
+    assert.equal(stubRequests, 1);
+    assert.deepEqual(result.usage, { inputTokens: 1200, outputTokens: 40 });
+    assert.deepEqual(extraction, { merchant: 'Blue Bottle Coffee', amount: 12.5, currency: 'USD', date: '2026-10-18' });
+  });
+
+  it('rounds the total to cents and normalises the currency code', async () => {
+    const { extraction } = await extract({ merchant: '  Corner Shop ', total: 7.499, currency: 'eur' });
+
+    assert.deepEqual(extraction, { merchant: 'Corner Shop', amount: 7.5, currency: 'EUR' });
+  });
+
+  it('drops amounts that are not positive', async () => {
+    assert.deepEqual((await extract({ merchant: 'Refund Desk', total: -4 })).extraction, { merchant: 'Refund Desk' });
+    assert.deepEqual((await extract({ merchant: 'Refund Desk', total: 0 })).extraction, { merchant: 'Refund Desk' });
+  });
+
+  it('drops future, malformed and impossible dates', async () => {
+    assert.deepEqual((await extract({ total: 3, date: '2026-10-20' })).extraction, { amount: 3 });
+    assert.deepEqual((await extract({ total: 3, date: '18/10/2026' })).extraction, { amount: 3 });
+    assert.deepEqual((await extract({ total: 3, date: '2026-02-30' })).extraction, { amount: 3 });
+    assert.deepEqual((await extract({ total: 3, date: TODAY })).extraction, { amount: 3, date: TODAY });
+  });
+
+  it('drops unknown currencies and blank merchants', async () => {
+    const { extraction } = await extract({ merchant: '   ', total: 9, currency: 'XYZ' });
+
+    assert.deepEqual(extraction, { amount: 9 });
+  });
+
+  it('returns nothing for an empty reading', async () => {
+    const { result, extraction } = await extract({});
+
+    assert.deepEqual(extraction, {});
+    assert.deepEqual(result.usage, { inputTokens: 1200, outputTokens: 40 });
+  });
+
+  it('returns nothing when the model could not read the receipt', async () => {
+    const { result, extraction } = await extract("Sorry, I can't make out this image.");
+
+    assert.deepEqual(extraction, {});
+    assert.deepEqual(result.usage, { inputTokens: 1200, outputTokens: 40 });
+  });
+});
@@ -0,0 +1,54 @@
+'use server';
+
+/**
+ * @fileOverview Reads the merchant, total and date off a receipt photo.
+ */
+
+import { ai, trackUsage, UsageSchema } from '@/ai/genkit';
+import { GenkitError, z } from 'genkit';
+
+const ExtractReceiptInputSchema = z.object({
+  photoDataUri: z
+    .string()
+    .describe("A photo of a receipt, as a data URI that must include a MIME type and use Base64 encoding. Expected format: 'data:<mimetype>;base64,<encoded_data>'."),
+  today: z.string().describe("The user's date today as yyyy-MM-dd."),
+  currency: z.string().describe("The user's default currency."),
+});
+
+const ExtractReceiptOutputSchema = z.object({
+  merchant: z.string().optional().describe('The shop or business name, in title case.'),
+  total: z.number().optional().describe('The final amount paid, including tax and tip.'),
+  currency: z.string().optional().describe('An ISO 4217 code, only if the receipt shows one or an unambiguous symbol.'),
+  date: z.string().optional().describe('The purchase date as yyyy-MM-dd.'),
+});
+
+const extractReceiptPrompt = ai.definePrompt({
+  name: 'extractReceiptPrompt',
+  input: { schema: ExtractReceiptInputSchema },
+  output: { schema: ExtractReceiptOutputSchema },
+  prompt: `Read this receipt. Give the merchant name, the total the customer paid, the currency if the receipt shows it, and the purchase date. Today is {{today}} and the user usually pays in {{currency}}; use that to resolve two-digit years and day/month order. Leave out anything you can't read rather than guessing.
+
+Receipt: {{media url=photoDataUri}}
+`,
+});
+
+export const extractReceiptFlow = ai.defineFlow(
+  {
+    name: 'extractReceiptFlow',
+    inputSchema: ExtractReceiptInputSchema,
+    outputSchema: ExtractReceiptOutputSchema.extend({ usage: UsageSchema }),
+  },
+  async (input) => {
+    const { usage, middleware } = trackUsage();
+    try {
+      const { output } = await extractReceiptPrompt(input, { use: [middleware] });
+      return { ...output!, usage };
+    } catch (error) {
+      // A reply that doesn't fit the schema means the receipt couldn't be read.
+      if (error instanceof GenkitError && error.status === 'INVALID_ARGUMENT') {
+        return { usage };
+      }
+      throw error;
+    }
+  }
+);
@@ -0,0 +1,47 @@
+'use server';
+
+/**
+ * @fileOverview Reads a free-text quick-add line into expense fields.
+ *
+ * Only used when the deterministic quick-add parser can't read the line.
+ */
+
+import { ai, trackUsage, UsageSchema } from '@/ai/genkit';
+import { z } from 'genkit';
+
+const ParseExpenseInputSchema = z.object({
+  text: z.string().describe('What the user typed, e.g. "split a 36 dollar pizza with Sam last night".'),
+  today: z.string().describe("The user's date today as yyyy-MM-dd."),
+  currency: z.string().describe("The user's default currency."),
+});
+
+const ParseExpenseOutputSchema = z.object({
+  name: z.string().describe('A short expense name in title case, e.g. "Pizza".'),
+  amount: z.number().describe("The user's share of the cost."),
+  currency: z.string().optional().describe('An ISO 4217 code, only if the text names a currency.'),
+  category: z.enum(['Needs', 'Wants', 'Savings']).optional().describe('Only if the text says or clearly implies it.'),
+  date: z.string().optional().describe('yyyy-MM-dd; omit for today. Never in the future.'),
+});
+
+const parseExpensePrompt = ai.definePrompt({
+  name: 'parseExpensePrompt',
+  input: { schema: ParseExpenseInputSchema },
+  output: { schema: ParseExpenseOutputSchema },
+  prompt: `Read this note about money the user spent and turn it into a single expense. Today is {{today}} and amounts are in {{currency}} unless the note says otherwise. Work out relative dates ("last night", "on Tuesday") from today. If the note mentions several amounts, use the one the user paid.
+
+Note: "{{text}}"
+`,
+});
+
+export const parseExpenseFlow = ai.defineFlow(
+  {
+    name: 'parseExpenseFlow',
+    inputSchema: ParseExpenseInputSchema,
+    outputSchema: ParseExpenseOutputSchema.extend({ usage: UsageSchema }),
+  },
+  async (input) => {
+    const { usage, middleware } = trackUsage();
+    const { output } = await parseExpensePrompt(input, { use: [middleware] });
+    return { ...output!, usage };
+  }
+);
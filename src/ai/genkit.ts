@@ -1,7 +1,45 @@
-import {genkit} from 'genkit';
+import {genkit, z} from 'genkit';
+import type {ModelMiddleware} from 'genkit/model';
 import {googleAI} from '@genkit-ai/google-genai';
 
 export const ai = genkit({
   plugins: [googleAI()],
   model: 'googleai/gemini-2.5-flash',
 });
+
+// Token counts a flow returns alongside its output, for usage accounting.
+export const UsageSchema = z.object({
+  inputTokens: z.number(),
+  outputTokens: z.number(),
+});
+
+export type Usage = z.infer<typeof UsageSchema>;
+
+// A rough token count for text the model never reported usage for.
+export function estimateTokens(text: string) {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Adds up the tokens of every model call a prompt makes, including the extra
+ * turns of a tool-calling loop. Pass `middleware` in the prompt's `use` option
+ * and read `usage` once the prompt has finished. A caller-owned `usage` is
+ * added to in place, so it still holds the count if the prompt is aborted.
+ */
+export function trackUsage(usage: Usage = {inputTokens: 0, outputTokens: 0}) {
+  const middleware: ModelMiddleware = async (request, next) => {
+    let response;
+    try {
+      response = await next(request);
+    } catch (error) {
+      // A call that fails or is aborted reports no usage; charge the prompt the model had already read.
+      const promptText = request.messages.flatMap((message) => message.content.map((part) => part.text ?? '')).join('');
+      usage.inputTokens += estimateTokens(promptText);
+      throw error;
+    }
+    usage.inputTokens += response.usage?.inputTokens ?? 0;
+    usage.outputTokens += response.usage?.outputTokens ?? 0;
+    return response;
+  };
+  return {usage, middleware};
+}
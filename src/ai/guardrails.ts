@@ -0,0 +1,29 @@
+/**
+ * Filters user-written text, like expense, goal and subcategory names, before
+ * it is handed to a model as data. These are short labels, so anything that
+ * reads like an instruction to the model is replaced outright rather than
+ * cleaned up. Every stored string that reaches a prompt goes through here; the
+ * user's own question is the one input that is meant to instruct the model.
+ */
+
+export const MAX_PROMPT_NAME_LENGTH = 80;
+export const FILTERED_NAME = '[filtered]';
+
+const INJECTION_PATTERNS = [
+  /\b(ignore|disregard|forget|override)\b.{0,40}\b(instructions?|prompts?|rules|above|previous)\b/i,
+  /\b(system|developer)\s+(prompt|message|instructions?)\b/i,
+  /\byou are now\b|\bpretend (to be|you are)\b|\bnew instructions?\b/i,
+  /\b(system|assistant|user|ai|model)\s*:/i,
+  /<\/?\s*(system|instructions?|prompt)\b/i,
+];
+
+export function sanitizePromptName(name: string, maxLength = MAX_PROMPT_NAME_LENGTH) {
+  const cleaned = name
+    // Control characters and newlines could start a fake turn in the prompt.
+    .replace(/[\u0000-\u001F\u007F]/g, ' ')
+    .replace(/[{}<>`]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, maxLength);
+  return INJECTION_PATTERNS.some((pattern) => pattern.test(cleaned)) ? FILTERED_NAME : cleaned;
+}
@@ -0,0 +1,73 @@
+import { ai } from '@/ai/genkit';
+import { z } from 'genkit';
+import type { ActionContext } from 'genkit';
+import { MAX_SEARCH_RESULTS, getBudgetStatus, getCategoryTotals, searchExpenses } from '@/ai/advisor-data';
+import { resolveClientClock, type ClientClock } from '@/lib/client-clock';
+
+/**
+ * Tools the advisor calls to look up the user's data on demand. The caller
+ * passes the verified uid as `context.auth.uid`, and the user's clock as
+ * `context.clock`; the model never sees or chooses either.
+ */
+
+function getContextUid(context: ActionContext) {
+  const uid = context.auth?.uid;
+  if (typeof uid !== 'string' || !uid) {
+    throw new Error('Spending tools need an authenticated user in the action context.');
+  }
+  return uid;
+}
+
+// Without a clock from the caller, periods fall back to the server's day.
+function getContextClock(context: ActionContext) {
+  return resolveClientClock((context.clock ?? {}) as Partial<ClientClock>);
+}
+
+const CategorySchema = z.enum(['Needs', 'Wants', 'Savings']);
+const CalendarDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const getCategoryTotalsTool = ai.defineTool(
+  {
+    name: 'getCategoryTotals',
+    description:
+      "Totals the user's spending by category (Needs, Wants, Savings) and subcategory for one budget period. Use it for questions about how much was spent in a period or how periods compare.",
+    inputSchema: z.object({
+      periodsAgo: z
+        .number()
+        .int()
+        .min(0)
+        .max(24)
+        .default(0)
+        .describe('Which budget period: 0 is the current one, 1 the previous one, and so on.'),
+    }),
+  },
+  async ({ periodsAgo }, { context }) => getCategoryTotals(getContextUid(context), getContextClock(context), periodsAgo)
+);
+
+export const searchExpensesTool = ai.defineTool(
+  {
+    name: 'searchExpenses',
+    description:
+      "Finds the user's individual expenses, newest first, by text in the expense name, date range and category. Returns the matching count and total as well as the expenses themselves, with the IDs needed to propose recategorizing them.",
+    inputSchema: z.object({
+      text: z.string().optional().describe('Case-insensitive text to look for in expense names, e.g. "uber".'),
+      from: CalendarDateSchema.optional().describe('First day to include, as yyyy-MM-dd.'),
+      to: CalendarDateSchema.optional().describe('Last day to include, as yyyy-MM-dd.'),
+      category: CategorySchema.optional().describe('Only return expenses in this category.'),
+      limit: z.number().int().min(1).max(MAX_SEARCH_RESULTS).optional().describe('How many expenses to list. Defaults to 25.'),
+    }),
+  },
+  async (search, { context }) => searchExpenses(getContextUid(context), getContextClock(context), search)
+);
+
+export const getBudgetStatusTool = ai.defineTool(
+  {
+    name: 'getBudgetStatus',
+    description:
+      "Shows how the current budget period is going: the user's income, each category's allocation, spending and what's left, days remaining, and the savings rate.",
+    inputSchema: z.object({}),
+  },
+  async (_, { context }) => getBudgetStatus(getContextUid(context), getContextClock(context))
+);
+
+export const spendingTools = [getCategoryTotalsTool, searchExpensesTool, getBudgetStatusTool];
@@ -0,0 +1,105 @@
+import { admin } from '@/firebase/admin';
+import type { Usage } from '@/ai/genkit';
+import type { AiFeature, AiUsage } from '@/lib/types';
+import {
+  DAILY_TOKEN_QUOTA,
+  RATE_LIMIT_REQUESTS,
+  RATE_LIMIT_WINDOW_MS,
+  SUGGESTION_RATE_LIMIT_REQUESTS,
+  getUsageDay,
+  getUsageMonth,
+} from '@/lib/ai-usage';
+
+/**
+ * Per-user rate limits, daily token quotas and usage accounting for the AI
+ * routes, kept in `users/{uid}/aiUsage/{yyyy-MM}`. A route reserves a request
+ * before calling the model and records the tokens the flow reports afterwards.
+ */
+
+export type UsageCheck =
+  | { allowed: true }
+  | { allowed: false; error: string; retryAfterSeconds: number };
+
+function getUsageDocRef(uid: string, now: Date) {
+  return admin.firestore().collection('users').doc(uid).collection('aiUsage').doc(getUsageMonth(now));
+}
+
+// Category suggestions have their own window; every other feature shares one.
+function getRateLimit(feature: AiFeature) {
+  return feature === 'categorize'
+    ? ({ field: 'recentSuggestionRequests', maxRequests: SUGGESTION_RATE_LIMIT_REQUESTS } as const)
+    : ({ field: 'recentRequests', maxRequests: RATE_LIMIT_REQUESTS } as const);
+}
+
+function secondsUntilNextUtcDay(now: Date) {
+  const nextDay = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((nextDay - now.getTime()) / 1000);
+}
+
+// Counts the request against the user's limits, or turns it away. Runs in a
+// transaction so parallel requests can't all slip under the limit.
+export async function reserveAiRequest(uid: string, feature: AiFeature, now = new Date()): Promise<UsageCheck> {
+  const usageDocRef = getUsageDocRef(uid, now);
+
+  return admin.firestore().runTransaction(async (transaction) => {
+    const usageDoc = await transaction.get(usageDocRef);
+    const usage = usageDoc.data() as Partial<AiUsage> | undefined;
+
+    const { field, maxRequests } = getRateLimit(feature);
+    const windowStart = now.getTime() - RATE_LIMIT_WINDOW_MS;
+    const recentRequests = (usage?.[field] ?? []).filter((time) => time > windowStart);
+    if (recentRequests.length >= maxRequests) {
+      return {
+        allowed: false,
+        error: 'Too many AI requests. Please wait a moment and try again.',
+        retryAfterSeconds: Math.ceil((recentRequests[0] - windowStart) / 1000),
+      };
+    }
+
+    if ((usage?.dailyTokens?.[getUsageDay(now)] ?? 0) >= DAILY_TOKEN_QUOTA) {
+      return {
+        allowed: false,
+        error: "You've reached today's AI usage limit. It resets at midnight UTC.",
+        retryAfterSeconds: secondsUntilNextUtcDay(now),
+      };
+    }
+
+    const increment = admin.firestore.FieldValue.increment(1);
+    transaction.set(
+      usageDocRef,
+      {
+        requests: increment,
+        features: { [feature]: { requests: increment } },
+        [field]: [...recentRequests, now.getTime()],
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+    return { allowed: true };
+  });
+}
+
+// Adds a finished request's tokens to the month, the feature and today's quota.
+// A failed write only under-counts, so it is logged rather than failing the answer.
+export async function recordAiUsage(uid: string, feature: AiFeature, usage: Usage, now = new Date()) {
+  const { increment } = admin.firestore.FieldValue;
+  try {
+    await getUsageDocRef(uid, now).set(
+      {
+        inputTokens: increment(usage.inputTokens),
+        outputTokens: increment(usage.outputTokens),
+        features: {
+          [feature]: {
+            inputTokens: increment(usage.inputTokens),
+            outputTokens: increment(usage.outputTokens),
+          },
+        },
+        dailyTokens: { [getUsageDay(now)]: increment(usage.inputTokens + usage.outputTokens) },
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      },
+      { merge: true }
+    );
+  } catch (error) {
+    console.error('Error recording AI usage:', error);
+  }
+}
@@ -0,0 +1,131 @@
+'use server';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { admin } from '@/firebase/admin';
+import { categorizeExpenseFlow } from '@/ai/flows/categorize-expense-flow';
+import { recordAiUsage, reserveAiRequest } from '@/ai/usage-limits';
+import { FILTERED_NAME, sanitizePromptName } from '@/ai/guardrails';
+import type { CategoryCorrection, CategorySuggestion, Subcategory, UserData } from '@/lib/types';
+import { getCorrectionId, MAX_CORRECTION_EXAMPLES, MIN_SUGGESTION_NAME_LENGTH } from '@/lib/categorization';
+
+const RequestSchema = z.object({
+  name: z.string().trim().min(MIN_SUGGESTION_NAME_LENGTH).max(200),
+  amount: z.number().positive().optional(),
+});
+
+/**
+ * Suggests a category and subcategory for an expense name. A name the user has
+ * corrected before gets their choice back directly; anything else goes to the
+ * model with their recent corrections as examples.
+ */
+export async function POST(request: Request) {
+  if (!admin.apps.length) {
+    const errorMessage = 'Category suggestions are not configured. The server is missing Firebase Admin credentials.';
+    console.error(`FATAL: ${errorMessage}`);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+
+  try {
+    // 1. Authenticate the user and get their UID
+    const authorization = request.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    const decodedToken = await admin.auth().verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    // 2. Parse the expense from the request body
+    const body = await request.json().catch(() => ({}));
+    const parsedRequest = RequestSchema.safeParse(body);
+    if (!parsedRequest.success) {
+      return NextResponse.json({ error: 'Invalid input: name is too short or too long.' }, { status: 400 });
+    }
+    const { name, amount } = parsedRequest.data;
+
+    // 3. Load the user's subcategories and corrections
+    const userDocRef = admin.firestore().collection('users').doc(uid);
+    const correctionsColRef = userDocRef.collection('categoryCorrections');
+    const correctionId = getCorrectionId(name);
+    const [userDoc, subcategoriesSnapshot, correctionsSnapshot, exactCorrectionDoc] = await Promise.all([
+      userDocRef.get(),
+      userDocRef.collection('subcategories').get(),
+      correctionsColRef.orderBy('updatedAt', 'desc').limit(MAX_CORRECTION_EXAMPLES).get(),
+      correctionId ? correctionsColRef.doc(correctionId).get() : null,
+    ]);
+
+    const subcategories = subcategoriesSnapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() }) as Subcategory);
+    // A subcategory only counts if it still exists under the suggested category.
+    const validSubcategoryId = (category: CategorySuggestion['category'], subcategoryId?: string | null) =>
+      subcategories.some((s) => s.id === subcategoryId && s.parent === category) ? subcategoryId! : null;
+
+    // 4. The user has filed this exact name before; use their choice
+    if (exactCorrectionDoc?.exists) {
+      const correction = exactCorrectionDoc.data() as CategoryCorrection;
+      const suggestion: CategorySuggestion = {
+        category: correction.category,
+        subcategoryId: validSubcategoryId(correction.category, correction.subcategoryId),
+        confidence: 1,
+        source: 'correction',
+      };
+      return NextResponse.json(suggestion);
+    }
+
+    // 5. Otherwise ask the model, with the corrections as examples. Every name is filtered first.
+    const promptName = sanitizePromptName(name);
+    if (promptName === FILTERED_NAME) {
+      return NextResponse.json({ error: 'No suggestion for this name.' }, { status: 422 });
+    }
+    const usageCheck = await reserveAiRequest(uid, 'categorize');
+    if (!usageCheck.allowed) {
+      return NextResponse.json(
+        { error: usageCheck.error },
+        { status: 429, headers: { 'Retry-After': String(usageCheck.retryAfterSeconds) } }
+      );
+    }
+    const subcategoryNames = new Map(subcategories.map((s) => [s.id, sanitizePromptName(s.name)]));
+    const corrections = correctionsSnapshot.docs
+      .map((doc) => {
+        const correction = doc.data() as CategoryCorrection;
+        const subcategory = correction.subcategoryId ? subcategoryNames.get(correction.subcategoryId) : undefined;
+        return { name: sanitizePromptName(correction.name), category: correction.category, ...(subcategory ? { subcategory } : {}) };
+      })
+      .filter((correction) => correction.name !== FILTERED_NAME);
+
+    const result = await categorizeExpenseFlow({
+      name: promptName,
+      amount,
+      currency: (userDoc.data() as UserData | undefined)?.currency || 'USD',
+      subcategories: subcategories.map(({ id, parent }) => ({ id, name: subcategoryNames.get(id)!, parent })),
+      corrections,
+    });
+    await recordAiUsage(uid, 'categorize', result.usage);
+
+    const suggestion: CategorySuggestion = {
+      category: result.category,
+      subcategoryId: validSubcategoryId(result.category, result.subcategoryId),
+      confidence: Math.min(1, Math.max(0, result.confidence)),
+      source: 'model',
+    };
+    return NextResponse.json(suggestion);
+
+  } catch (error: any) {
+    console.error('Error in categorize-expense API:', error);
+
+    if (error.code === 'auth/id-token-expired' || error.code === 'auth/argument-error') {
+      return NextResponse.json({ error: 'Unauthorized. Invalid token.' }, { status: 401 });
+    }
+
+    if (error.message?.includes('API key not found')) {
+      const errorMessage = 'Category suggestions are not configured. The server is missing the Gemini API key.';
+      console.error(`FATAL: ${errorMessage}`);
+      return NextResponse.json({ error: errorMessage }, { status: 500 });
+    }
+
+    return NextResponse.json(
+      { error: 'An error occurred while processing your request. Please check the server logs for details.' },
+      { status: 500 }
+    );
+  }
+}
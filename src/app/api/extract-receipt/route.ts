@@ -0,0 +1,82 @@
+'use server';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { admin } from '@/firebase/admin';
+import { extractReceiptFlow } from '@/ai/flows/extract-receipt-flow';
+import { recordAiUsage, reserveAiRequest } from '@/ai/usage-limits';
+import type { UserData } from '@/lib/types';
+import { isCalendarDate, toCalendarDate } from '@/lib/recurrence';
+import { MAX_RECEIPT_DATA_URI_LENGTH, RECEIPT_DATA_URI_PATTERN, toReceiptExtraction } from '@/lib/receipts';
+
+const RequestSchema = z.object({
+  image: z.string().max(MAX_RECEIPT_DATA_URI_LENGTH).regex(RECEIPT_DATA_URI_PATTERN),
+  // The client's local calendar day, so a receipt from "today" isn't treated as the future.
+  today: z.string().refine(isCalendarDate).optional(),
+});
+
+/**
+ * Reads the merchant, total and date off a receipt photo to pre-fill the
+ * expense form. The photo itself is uploaded to Storage by the client.
+ */
+export async function POST(request: Request) {
+  if (!admin.apps.length) {
+    const errorMessage = 'Receipt scanning is not configured. The server is missing Firebase Admin credentials.';
+    console.error(`FATAL: ${errorMessage}`);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+
+  try {
+    // 1. Authenticate the user and get their UID
+    const authorization = request.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    const decodedToken = await admin.auth().verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    // 2. Parse the image from the request body
+    const body = await request.json().catch(() => ({}));
+    const parsedRequest = RequestSchema.safeParse(body);
+    if (!parsedRequest.success) {
+      return NextResponse.json({ error: 'Invalid input: image must be a JPEG, PNG or WebP data URI under 4 MB.' }, { status: 400 });
+    }
+    const { image } = parsedRequest.data;
+    const today = parsedRequest.data.today ?? toCalendarDate(new Date());
+
+    // 3. Ask the model to read the receipt
+    const usageCheck = await reserveAiRequest(uid, 'receipt');
+    if (!usageCheck.allowed) {
+      return NextResponse.json(
+        { error: usageCheck.error },
+        { status: 429, headers: { 'Retry-After': String(usageCheck.retryAfterSeconds) } }
+      );
+    }
+    const userDoc = await admin.firestore().collection('users').doc(uid).get();
+    const currency = (userDoc.data() as UserData | undefined)?.currency || 'USD';
+    const result = await extractReceiptFlow({ photoDataUri: image, today, currency });
+    await recordAiUsage(uid, 'receipt', result.usage);
+
+    // 4. Keep only the fields that would pass the expense form
+    return NextResponse.json(toReceiptExtraction(result, today));
+
+  } catch (error: any) {
+    console.error('Error in extract-receipt API:', error);
+
+    if (error.code === 'auth/id-token-expired' || error.code === 'auth/argument-error') {
+      return NextResponse.json({ error: 'Unauthorized. Invalid token.' }, { status: 401 });
+    }
+
+    if (error.message?.includes('API key not found')) {
+      const errorMessage = 'Receipt scanning is not configured. The server is missing the Gemini API key.';
+      console.error(`FATAL: ${errorMessage}`);
+      return NextResponse.json({ error: errorMessage }, { status: 500 });
+    }
+
+    return NextResponse.json(
+      { error: 'An error occurred while processing your request. Please check the server logs for details.' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,10 +4,24 @@ import { NextResponse } from 'next/server';
 import { financialAdvisorFlow } from '@/ai/flows/financial-advisor-flow';
 import { z } from 'zod';
 import { admin } from '@/firebase/admin';
-import type { Expense } from '@/lib/types';
+import type { AdvisorAction, ConversationMessage, UserData } from '@/lib/types';
+import { resolveAllocation } from '@/lib/allocation';
+import { isCalendarDate } from '@/lib/recurrence';
+import { MAX_TIMEZONE_OFFSET, MIN_TIMEZONE_OFFSET, resolveClientClock } from '@/lib/client-clock';
+import { encodeAdvisorEvent, type AdvisorStreamEvent } from '@/lib/advisor-stream';
+import { getConversationTitle, getPromptHistory } from '@/lib/conversations';
+import { parseAdvisorActions } from '@/lib/advisor-actions';
+import { MAX_ADVISOR_QUERY_LENGTH } from '@/lib/ai-usage';
+import { recordAiUsage, reserveAiRequest } from '@/ai/usage-limits';
+import { estimateTokens, type Usage } from '@/ai/genkit';
 
 const RequestSchema = z.object({
-  query: z.string(),
+  query: z.string().trim().min(1).max(MAX_ADVISOR_QUERY_LENGTH),
+  // Continue a saved conversation; a new one is started when this is missing.
+  conversationId: z.string().max(128).optional(),
+  // The client's calendar day and UTC offset, so periods and dates match the dashboard.
+  today: z.string().refine(isCalendarDate).optional(),
+  timezoneOffset: z.number().int().min(MIN_TIMEZONE_OFFSET).max(MAX_TIMEZONE_OFFSET).optional(),
 });
 
 export async function POST(request: Request) {
@@ -31,48 +45,152 @@ export async function POST(request: Request) {
     const decodedToken = await admin.auth().verifyIdToken(idToken);
     const uid = decodedToken.uid;
 
-    // 2. Securely fetch user data from Firestore on the server
+    // 2. Securely fetch the user's profile. Expenses are no longer sent up
+    // front; the advisor's tools query just what each question needs.
     const userDocRef = admin.firestore().collection('users').doc(uid);
-    const expensesColRef = userDocRef.collection('expenses');
-
-    const [userDoc, expensesSnapshot] = await Promise.all([
-      userDocRef.get(),
-      expensesColRef.get(),
-    ]);
+    const userDoc = await userDocRef.get();
 
     if (!userDoc.exists) {
         return NextResponse.json({ error: 'User data not found.' }, { status: 404 });
     }
     
-    const userData = userDoc.data();
-    const income = userData?.income || 0;
-    
-    // Convert Firestore timestamps to dates, then to the format AI expects
-    const expenses = expensesSnapshot.docs.map(doc => {
-        const data = doc.data() as Expense;
-        return {
-            name: data.name,
-            amount: data.amount,
-            category: data.category,
-        };
-    });
+    const userData = userDoc.data() as UserData;
+    const { needs, wants, savings } = resolveAllocation(userData.allocation);
 
     // 3. Parse the user's query from the request body
-    const body = await request.json();
+    const body = await request.json().catch(() => ({}));
     const parsedRequest = RequestSchema.safeParse(body);
 
     if (!parsedRequest.success) {
-      return NextResponse.json({ error: 'Invalid input: Missing query.' }, { status: 400 });
+      return NextResponse.json({ error: `Invalid input: the question must be 1 to ${MAX_ADVISOR_QUERY_LENGTH} characters.` }, { status: 400 });
+    }
+    const { query, conversationId } = parsedRequest.data;
+    const clock = resolveClientClock(parsedRequest.data);
+
+    // 4. Load the conversation's earlier turns, or start a new conversation.
+    // This comes before the quota so a stale conversation ID doesn't use it up.
+    const conversationsColRef = userDocRef.collection('conversations');
+    const conversationRef = conversationId ? conversationsColRef.doc(conversationId) : conversationsColRef.doc();
+    let history: ReturnType<typeof getPromptHistory> = [];
+
+    if (conversationId) {
+      const conversationDoc = await conversationRef.get();
+      if (!conversationDoc.exists) {
+        return NextResponse.json({ error: 'Conversation not found.' }, { status: 404 });
+      }
+      history = getPromptHistory(conversationDoc.data()?.messages || []);
     }
 
-    // 4. Call the AI flow with the securely fetched data
-    const result = await financialAdvisorFlow({
-        income,
-        expenses,
-        query: parsedRequest.data.query,
+    // 5. Enforce the user's AI rate limit and daily token quota
+    const usageCheck = await reserveAiRequest(uid, 'advisor');
+    if (!usageCheck.allowed) {
+      return NextResponse.json(
+        { error: usageCheck.error },
+        { status: 429, headers: { 'Retry-After': String(usageCheck.retryAfterSeconds) } }
+      );
+    }
+
+    // 6. Stream the AI flow's answer back as it is generated. Aborting the
+    // request (the user pressing stop) cancels the model call too.
+    const abortController = new AbortController();
+    request.signal.addEventListener('abort', () => abortController.abort());
+    // Filled in by the flow as the model answers, including when it is stopped part way.
+    const usage: Usage = { inputTokens: 0, outputTokens: 0 };
+
+    const { stream, output } = financialAdvisorFlow.stream(
+      {
+        today: clock.today,
+        currency: userData.currency || 'USD',
+        allocation: { needs, wants, savings },
+        history,
+        query,
+      },
+      // The spending tools read the uid and clock from here, so the model can only see this user's data.
+      { abortSignal: abortController.signal, context: { auth: { uid }, clock, usage } }
+    );
+
+    // Saves the question and however much of the answer was produced, including a stopped
+    // or failed one. A new conversation is only created here, so it is never left empty.
+    let isTurnSaved = false;
+    const saveTurn = async (answer: string, actions: AdvisorAction[] = []) => {
+      if (isTurnSaved) return;
+      isTurnSaved = true;
+      const now = admin.firestore.Timestamp.now();
+      const messages: Omit<ConversationMessage, 'createdAt'>[] = [{ sender: 'user', text: query }];
+      if (answer) {
+        messages.push({
+          sender: 'ai',
+          text: answer,
+          ...(abortController.signal.aborted ? { isStopped: true } : {}),
+          ...(actions.length > 0 ? { actions } : {}),
+        });
+      }
+      const turn = messages.map((message) => ({ ...message, createdAt: now }));
+      if (!conversationId) {
+        await conversationRef.set({
+          title: getConversationTitle(query),
+          messages: turn,
+          createdAt: admin.firestore.FieldValue.serverTimestamp(),
+          updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+        });
+        return;
+      }
+      await conversationRef.update({
+        messages: admin.firestore.FieldValue.arrayUnion(...turn),
+        updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+      });
+    };
+
+    const encoder = new TextEncoder();
+    const responseBody = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        const send = (event: AdvisorStreamEvent) => controller.enqueue(encoder.encode(encodeAdvisorEvent(event)));
+        let answer = '';
+        try {
+          send({ type: 'conversation', id: conversationRef.id });
+          for await (const text of stream) {
+            answer += text;
+            send({ type: 'chunk', text });
+          }
+          const result = await output;
+          answer = result.answer;
+          // Proposals that don't validate are dropped rather than shown.
+          const actions = parseAdvisorActions(result.actions);
+          await saveTurn(answer, actions);
+          send({ type: 'done', answer, actions });
+        } catch (error: any) {
+          if (abortController.signal.aborted) {
+            // The cut-off model call never reported its output; charge what was streamed.
+            usage.outputTokens += estimateTokens(answer);
+            await saveTurn(answer).catch((saveError) => console.error('Error saving stopped conversation turn:', saveError));
+            return;
+          }
+          console.error('Error streaming financial-advisor response:', error);
+          // Keep the question so the user can see what to ask again.
+          await saveTurn('').catch((saveError) => console.error('Error saving failed conversation turn:', saveError));
+          // The model is only called once streaming starts, so a missing key surfaces here.
+          send({
+            type: 'error',
+            error: error.message?.includes('API key not found')
+              ? 'AI assistant is not configured. The server is missing the Gemini API key. Please check your .env.local file.'
+              : 'The answer was interrupted. Please try again.',
+          });
+        } finally {
+          await recordAiUsage(uid, 'advisor', usage);
+          if (!abortController.signal.aborted) controller.close();
+        }
+      },
+      cancel() {
+        abortController.abort();
+      },
     });
 
-    return NextResponse.json(result);
+    return new Response(responseBody, {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+      },
+    });
 
   } catch (error: any) {
     console.error("Error in financial-advisor API:", error);
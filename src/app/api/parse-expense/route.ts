@@ -0,0 +1,101 @@
+'use server';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { admin } from '@/firebase/admin';
+import { parseExpenseFlow } from '@/ai/flows/parse-expense-flow';
+import { recordAiUsage, reserveAiRequest } from '@/ai/usage-limits';
+import { FILTERED_NAME, sanitizePromptName } from '@/ai/guardrails';
+import type { UserData } from '@/lib/types';
+import { isCurrency } from '@/lib/currency';
+import { isCalendarDate, toCalendarDate } from '@/lib/recurrence';
+import { MAX_QUICK_ADD_LENGTH, type ParsedExpense } from '@/lib/quick-add';
+
+const RequestSchema = z.object({
+  text: z.string().trim().min(1).max(MAX_QUICK_ADD_LENGTH),
+  // The client's local calendar day, so "yesterday" means the user's yesterday.
+  today: z.string().refine(isCalendarDate).optional(),
+});
+
+/**
+ * Reads a quick-add line the deterministic parser couldn't, using the model.
+ * The result is only shown for confirmation; nothing is saved here.
+ */
+export async function POST(request: Request) {
+  if (!admin.apps.length) {
+    const errorMessage = 'Quick add is not configured. The server is missing Firebase Admin credentials.';
+    console.error(`FATAL: ${errorMessage}`);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+
+  try {
+    // 1. Authenticate the user and get their UID
+    const authorization = request.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    const decodedToken = await admin.auth().verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    // 2. Parse the line from the request body
+    const body = await request.json().catch(() => ({}));
+    const parsedRequest = RequestSchema.safeParse(body);
+    if (!parsedRequest.success) {
+      return NextResponse.json({ error: `Invalid input: text must be 1 to ${MAX_QUICK_ADD_LENGTH} characters.` }, { status: 400 });
+    }
+    const { text } = parsedRequest.data;
+    const today = parsedRequest.data.today ?? toCalendarDate(new Date());
+
+    // 3. Ask the model to read it, unless the line reads like instructions to the model
+    const promptText = sanitizePromptName(text, MAX_QUICK_ADD_LENGTH);
+    if (promptText === FILTERED_NAME) {
+      return NextResponse.json({ error: "Couldn't find an expense name and amount in that." }, { status: 422 });
+    }
+    const usageCheck = await reserveAiRequest(uid, 'parseExpense');
+    if (!usageCheck.allowed) {
+      return NextResponse.json(
+        { error: usageCheck.error },
+        { status: 429, headers: { 'Retry-After': String(usageCheck.retryAfterSeconds) } }
+      );
+    }
+    const userDoc = await admin.firestore().collection('users').doc(uid).get();
+    const currency = (userDoc.data() as UserData | undefined)?.currency || 'USD';
+    const result = await parseExpenseFlow({ text: promptText, today, currency });
+    await recordAiUsage(uid, 'parseExpense', result.usage);
+
+    // 4. Keep only what makes a valid expense
+    if (!result.name.trim() || !(result.amount > 0)) {
+      return NextResponse.json({ error: "Couldn't find an expense name and amount in that." }, { status: 422 });
+    }
+    const resultCurrency = result.currency?.toUpperCase();
+    const parsed: ParsedExpense = {
+      name: result.name.trim(),
+      amount: Math.round(result.amount * 100) / 100,
+      ...(resultCurrency && isCurrency(resultCurrency) ? { currency: resultCurrency } : {}),
+      ...(result.category ? { category: result.category } : {}),
+      // Expenses can't be in the future; fall back to today rather than trusting a bad date.
+      date: result.date && isCalendarDate(result.date) && result.date <= today ? result.date : today,
+      source: 'ai',
+    };
+    return NextResponse.json(parsed);
+
+  } catch (error: any) {
+    console.error('Error in parse-expense API:', error);
+
+    if (error.code === 'auth/id-token-expired' || error.code === 'auth/argument-error') {
+      return NextResponse.json({ error: 'Unauthorized. Invalid token.' }, { status: 401 });
+    }
+
+    if (error.message?.includes('API key not found')) {
+      const errorMessage = 'Quick add is not configured. The server is missing the Gemini API key.';
+      console.error(`FATAL: ${errorMessage}`);
+      return NextResponse.json({ error: errorMessage }, { status: 500 });
+    }
+
+    return NextResponse.json(
+      { error: 'An error occurred while processing your request. Please check the server logs for details.' },
+      { status: 500 }
+    );
+  }
+}
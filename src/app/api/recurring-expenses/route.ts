@@ -0,0 +1,107 @@
+'use server';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { admin } from '@/firebase/admin';
+import type { RecurringExpense, UserData } from '@/lib/types';
+import { getNextOccurrenceDay, getOccurrences, isCalendarDate, parseCalendarDate } from '@/lib/recurrence';
+import { MAX_TIMEZONE_OFFSET, MIN_TIMEZONE_OFFSET, resolveClientClock, toUserInstant } from '@/lib/client-clock';
+import { getExpenseCurrency } from '@/lib/exchange-rates';
+
+const RequestSchema = z.object({
+  // The client's local calendar day and UTC offset, so bills land on the user's days rather than the server's.
+  today: z.string().refine(isCalendarDate).optional(),
+  timezoneOffset: z.number().int().min(MIN_TIMEZONE_OFFSET).max(MAX_TIMEZONE_OFFSET).optional(),
+});
+
+// Firestore's gRPC status for a document that already exists.
+const ALREADY_EXISTS = 6;
+
+/**
+ * Turns every due occurrence of the user's recurring expenses into a regular
+ * expense. Occurrences get a deterministic document ID, so calling this any
+ * number of times never creates duplicates.
+ */
+export async function POST(request: Request) {
+  if (!admin.apps.length) {
+    const errorMessage = 'Recurring expenses are not configured. The server is missing Firebase Admin credentials.';
+    console.error(`FATAL: ${errorMessage}`);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+
+  try {
+    // 1. Authenticate the user and get their UID
+    const authorization = request.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    const decodedToken = await admin.auth().verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    // 2. Work out which day counts as "today"
+    const body = await request.json().catch(() => ({}));
+    const parsedRequest = RequestSchema.safeParse(body);
+    if (!parsedRequest.success) {
+      return NextResponse.json({ error: 'Invalid input: today must be a yyyy-MM-dd date and timezoneOffset a UTC offset in minutes.' }, { status: 400 });
+    }
+    const { today, timezoneOffset } = resolveClientClock(parsedRequest.data);
+
+    // 3. Materialise due occurrences
+    const userDocRef = admin.firestore().collection('users').doc(uid);
+    const [userDoc, recurringSnapshot] = await Promise.all([
+      userDocRef.get(),
+      userDocRef.collection('recurringExpenses').get(),
+    ]);
+    // Schedules written before they carried a currency are in the base currency.
+    const baseCurrency = (userDoc.data() as UserData | undefined)?.currency || 'USD';
+    const expensesColRef = userDocRef.collection('expenses');
+
+    let created = 0;
+    for (const recurringDoc of recurringSnapshot.docs) {
+      const recurring = { id: recurringDoc.id, ...recurringDoc.data() } as RecurringExpense;
+      const from = recurring.lastOccurrence ? getNextOccurrenceDay(recurring.lastOccurrence) : recurring.startDate;
+      if (from > today) continue;
+
+      // Paused schedules still move forward so resuming doesn't back-fill the pause.
+      const due = recurring.paused
+        ? []
+        : getOccurrences(recurring, from, today).filter((date) => !(recurring.skippedDates || []).includes(date));
+
+      for (const date of due) {
+        try {
+          await expensesColRef.doc(`${recurring.id}-${date}`).create({
+            name: recurring.name,
+            amount: recurring.amount,
+            currency: getExpenseCurrency(recurring, baseCurrency),
+            category: recurring.category,
+            subcategoryId: recurring.subcategoryId ?? null,
+            // Noon on the user's clock, so the day survives an hour's daylight-saving drift.
+            date: admin.firestore.Timestamp.fromDate(toUserInstant(parseCalendarDate(date), timezoneOffset, 12)),
+            createdAt: admin.firestore.FieldValue.serverTimestamp(),
+            recurringExpenseId: recurring.id,
+          });
+          created++;
+        } catch (error: any) {
+          if (error.code !== ALREADY_EXISTS) throw error;
+        }
+      }
+
+      await recurringDoc.ref.update({ lastOccurrence: today });
+    }
+
+    return NextResponse.json({ created });
+
+  } catch (error: any) {
+    console.error('Error in recurring-expenses API:', error);
+
+    if (error.code === 'auth/id-token-expired' || error.code === 'auth/argument-error') {
+      return NextResponse.json({ error: 'Unauthorized. Invalid token.' }, { status: 401 });
+    }
+
+    return NextResponse.json(
+      { error: 'An error occurred while processing your request. Please check the server logs for details.' },
+      { status: 500 }
+    );
+  }
+}
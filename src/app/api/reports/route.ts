@@ -0,0 +1,106 @@
+'use server';
+
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { admin } from '@/firebase/admin';
+import { monthlyReportFlow } from '@/ai/flows/monthly-report-flow';
+import { recordAiUsage, reserveAiRequest } from '@/ai/usage-limits';
+import { getAdvisorPeriod, getMonthlyReportData } from '@/ai/advisor-data';
+import type { UserData } from '@/lib/types';
+import { isCalendarDate, toCalendarDate } from '@/lib/recurrence';
+import { MAX_TIMEZONE_OFFSET, MIN_TIMEZONE_OFFSET, resolveClientClock } from '@/lib/client-clock';
+import { MAX_REPORT_PERIODS_AGO, REPORT_SUGGESTION_COUNT } from '@/lib/reports';
+
+const RequestSchema = z.object({
+  // 0 is the period in progress; the default is the last finished one.
+  periodsAgo: z.number().int().min(0).max(MAX_REPORT_PERIODS_AGO).default(1),
+  // Leave an existing report alone; used when the reports page opens.
+  ifMissing: z.boolean().default(false),
+  // The client's calendar day and UTC offset, so periods are cut at the user's midnight.
+  today: z.string().refine(isCalendarDate).optional(),
+  timezoneOffset: z.number().int().min(MIN_TIMEZONE_OFFSET).max(MAX_TIMEZONE_OFFSET).optional(),
+});
+
+/**
+ * Generates the monthly report for one budget period and saves it to the
+ * user's reports, keyed by the period's start day. Generating it again
+ * replaces the earlier version.
+ */
+export async function POST(request: Request) {
+  if (!admin.apps.length) {
+    const errorMessage = 'Reports are not configured. The server is missing Firebase Admin credentials.';
+    console.error(`FATAL: ${errorMessage}`);
+    return NextResponse.json({ error: errorMessage }, { status: 500 });
+  }
+
+  try {
+    // 1. Authenticate the user and get their UID
+    const authorization = request.headers.get('Authorization');
+    if (!authorization?.startsWith('Bearer ')) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const idToken = authorization.split('Bearer ')[1];
+    const decodedToken = await admin.auth().verifyIdToken(idToken);
+    const uid = decodedToken.uid;
+
+    // 2. Work out which period to report on
+    const body = await request.json().catch(() => ({}));
+    const parsedRequest = RequestSchema.safeParse(body);
+    if (!parsedRequest.success) {
+      return NextResponse.json({ error: `Invalid input: periodsAgo must be between 0 and ${MAX_REPORT_PERIODS_AGO}.` }, { status: 400 });
+    }
+    const { periodsAgo, ifMissing } = parsedRequest.data;
+    const clock = resolveClientClock(parsedRequest.data);
+
+    const userDocRef = admin.firestore().collection('users').doc(uid);
+    const userDoc = await userDocRef.get();
+    if (!userDoc.exists) {
+      return NextResponse.json({ error: 'User data not found.' }, { status: 404 });
+    }
+    const reportId = toCalendarDate(getAdvisorPeriod(userDoc.data() as UserData, clock, periodsAgo).start);
+    const reportRef = userDocRef.collection('reports').doc(reportId);
+
+    if (ifMissing && (await reportRef.get()).exists) {
+      return NextResponse.json({ id: reportId, created: false });
+    }
+
+    // 3. Gather the figures, then have the model write them up
+    const usageCheck = await reserveAiRequest(uid, 'report');
+    if (!usageCheck.allowed) {
+      return NextResponse.json(
+        { error: usageCheck.error },
+        { status: 429, headers: { 'Retry-After': String(usageCheck.retryAfterSeconds) } }
+      );
+    }
+    const data = await getMonthlyReportData(uid, clock, periodsAgo);
+    const { summary, suggestions, usage } = await monthlyReportFlow(data);
+    await recordAiUsage(uid, 'report', usage);
+
+    await reportRef.set({
+      ...data,
+      summary,
+      suggestions: suggestions.slice(0, REPORT_SUGGESTION_COUNT),
+      createdAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+
+    return NextResponse.json({ id: reportId, created: true });
+
+  } catch (error: any) {
+    console.error('Error in reports API:', error);
+
+    if (error.code === 'auth/id-token-expired' || error.code === 'auth/argument-error') {
+      return NextResponse.json({ error: 'Unauthorized. Invalid token.' }, { status: 401 });
+    }
+
+    if (error.message?.includes('API key not found')) {
+      const errorMessage = 'Reports are not configured. The server is missing the Gemini API key.';
+      console.error(`FATAL: ${errorMessage}`);
+      return NextResponse.json({ error: errorMessage }, { status: 500 });
+    }
+
+    return NextResponse.json(
+      { error: 'An error occurred while processing your request. Please check the server logs for details.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,5 @@
+import { ExpenseHistory } from '@/components/dashboard/expense-history';
+
+export default function ExpenseHistoryPage() {
+  return <ExpenseHistory />;
+}
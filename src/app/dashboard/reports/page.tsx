@@ -0,0 +1,5 @@
+import { MonthlyReports } from '@/components/dashboard/monthly-reports';
+
+export default function ReportsPage() {
+  return <MonthlyReports />;
+}
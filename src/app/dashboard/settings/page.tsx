@@ -15,6 +15,7 @@ import { Button } from '@/components/ui/button';
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -27,18 +28,78 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { ArrowLeft } from 'lucide-react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { formatCurrency } from '@/lib/currency';
+import { CURRENCY_CODES, DEFAULT_LOCALE, SUPPORTED_LOCALES, formatCurrency, getCurrencyLabel } from '@/lib/currency';
+import { MAX_PERIOD_START_DAY, MIN_PERIOD_START_DAY } from '@/lib/budget-period';
+import {
+  ALLOCATION_PRESETS,
+  ALLOCATION_PRESET_LABELS,
+  DEFAULT_ALLOCATION,
+  allocationTotal,
+  matchAllocationPreset,
+  resolveAllocation,
+} from '@/lib/allocation';
+import {
+  DEFAULT_ALERT_THRESHOLDS,
+  MAX_ALERT_THRESHOLD,
+  formatThresholdList,
+  parseThresholdList,
+  resolveAlertThresholds,
+} from '@/lib/alerts';
+import { EXPENSE_CATEGORIES } from '@/lib/budget';
+import type { AlertThresholds, AllocationPresetId } from '@/lib/types';
+import { cn } from '@/lib/utils';
+import { SubcategoryManager } from '@/components/dashboard/subcategory-manager';
+import { ExchangeRateManager } from '@/components/dashboard/exchange-rate-manager';
+import { AiUsageCard } from '@/components/dashboard/ai-usage-card';
+
+// A cleared field holds NaN, so it is shown empty and rejected on save rather than read as 0.
+const percentageSchema = z.coerce
+  .number({ invalid_type_error: 'Enter a percentage.' })
+  .int({ message: 'Use whole percentages.' })
+  .min(0, { message: 'Cannot be negative.' })
+  .max(100, { message: 'Cannot exceed 100%.' });
+
+const allocationSchema = z
+  .object({
+    preset: z.enum(['50-30-20', '70-20-10', '60-20-20', 'custom']),
+    needs: percentageSchema,
+    wants: percentageSchema,
+    savings: percentageSchema,
+  })
+  .refine((allocation) => allocationTotal(allocation) === 100, {
+    message: 'Needs, Wants and Savings must add up to 100%.',
+  });
+
+// Edited as "80, 100" text and parsed into a sorted list on save.
+const thresholdListSchema = z.string().refine((value) => parseThresholdList(value) !== null, {
+  message: `Use whole percentages from 1 to ${MAX_ALERT_THRESHOLD}, separated by commas.`,
+});
 
 const settingsFormSchema = z.object({
   displayName: z.string().min(2, { message: 'Name must be at least 2 characters.' }).max(50, { message: 'Name must not be longer than 50 characters.' }),
-  income: z.coerce.number().positive({ message: 'Income must be a positive number.' }),
   savingsGoal: z.coerce.number().min(0, { message: 'Savings goal cannot be negative.' }),
   bio: z.string().max(160, { message: 'Bio must not be longer than 160 characters.' }).optional(),
-  currency: z.enum(['USD', 'INR', 'EUR']),
+  currency: z.enum(CURRENCY_CODES),
+  locale: z.string().refine((value) => SUPPORTED_LOCALES.some((locale) => locale.value === value), { message: 'Please choose a supported locale.' }),
+  allocation: allocationSchema,
+  alertThresholds: z.object({
+    Needs: thresholdListSchema,
+    Wants: thresholdListSchema,
+    Savings: thresholdListSchema,
+  }),
+  periodStartDay: z.coerce.number().int().min(MIN_PERIOD_START_DAY, { message: `Start day must be between ${MIN_PERIOD_START_DAY} and ${MAX_PERIOD_START_DAY}.` }).max(MAX_PERIOD_START_DAY, { message: `Start day must be between ${MIN_PERIOD_START_DAY} and ${MAX_PERIOD_START_DAY}.` }),
 });
 
 type SettingsFormValues = z.infer<typeof settingsFormSchema>;
 
+function toThresholdFields(thresholds: AlertThresholds) {
+  return {
+    Needs: formatThresholdList(thresholds.Needs),
+    Wants: formatThresholdList(thresholds.Wants),
+    Savings: formatThresholdList(thresholds.Savings),
+  };
+}
+
 export default function SettingsPage() {
   const { user, userData, loading: authLoading } = useAuth();
   const db = useFirestore();
@@ -47,25 +108,53 @@ export default function SettingsPage() {
 
   const form = useForm<SettingsFormValues>({
     resolver: zodResolver(settingsFormSchema),
+    mode: 'onChange',
     defaultValues: {
       displayName: '',
-      income: 0,
       savingsGoal: 0,
       bio: '',
       currency: 'USD',
+      locale: DEFAULT_LOCALE,
+      periodStartDay: 1,
+      allocation: DEFAULT_ALLOCATION,
+      alertThresholds: toThresholdFields(DEFAULT_ALERT_THRESHOLDS),
     },
   });
 
   const selectedCurrency = form.watch('currency');
+  const selectedLocale = form.watch('locale');
+  const watchedAllocation = form.watch('allocation');
+  const allocationSum = allocationTotal({
+    needs: Number(watchedAllocation.needs) || 0,
+    wants: Number(watchedAllocation.wants) || 0,
+    savings: Number(watchedAllocation.savings) || 0,
+  });
+
+  const handlePresetChange = (preset: AllocationPresetId) => {
+    if (preset === 'custom') {
+      form.setValue('allocation.preset', preset, { shouldDirty: true });
+      return;
+    }
+    form.setValue('allocation', ALLOCATION_PRESETS[preset], { shouldDirty: true, shouldValidate: true });
+  };
+
+  const handlePercentageChange = (key: 'needs' | 'wants' | 'savings', value: string) => {
+    form.setValue(`allocation.${key}`, value === '' ? NaN : Number(value), { shouldDirty: true, shouldValidate: true });
+    const { needs, wants, savings } = form.getValues('allocation');
+    form.setValue('allocation.preset', matchAllocationPreset(Number(needs), Number(wants), Number(savings)), { shouldDirty: true });
+  };
 
   useEffect(() => {
     if (userData && !form.formState.isDirty) {
       form.reset({
         displayName: userData.displayName || '',
-        income: userData.income || 0,
         savingsGoal: userData.savingsGoal || 0,
         bio: userData.bio || '',
         currency: userData.currency || 'USD',
+        locale: userData.locale || DEFAULT_LOCALE,
+        periodStartDay: userData.periodStartDay || 1,
+        allocation: resolveAllocation(userData.allocation),
+        alertThresholds: toThresholdFields(resolveAlertThresholds(userData.alertThresholds)),
       });
     }
   }, [userData, form]);
@@ -78,8 +167,16 @@ export default function SettingsPage() {
     setIsLoading(true);
 
     const userDocRef = doc(db, 'users', user.uid);
+    const data = {
+      ...values,
+      alertThresholds: resolveAlertThresholds({
+        Needs: parseThresholdList(values.alertThresholds.Needs) ?? undefined,
+        Wants: parseThresholdList(values.alertThresholds.Wants) ?? undefined,
+        Savings: parseThresholdList(values.alertThresholds.Savings) ?? undefined,
+      }),
+    };
     
-    setDoc(userDocRef, values, { merge: true })
+    setDoc(userDocRef, data, { merge: true })
       .then(() => {
         toast({
           title: 'Settings Saved!',
@@ -91,7 +188,7 @@ export default function SettingsPage() {
         const permissionError = new FirestorePermissionError({
           path: userDocRef.path,
           operation: 'update',
-          requestResourceData: values,
+          requestResourceData: data,
         });
         errorEmitter.emit('permission-error', permissionError);
       })
@@ -146,56 +243,171 @@ export default function SettingsPage() {
                         </FormItem>
                     )}
                     />
+                    <div className="space-y-2">
+                        <p className="text-sm font-medium">Income</p>
+                        <p className="text-sm text-muted-foreground">
+                            Salary, side income and one-off payments are managed from the Expenses tab on your dashboard.
+                        </p>
+                    </div>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        <FormField
+                         <FormField
                             control={form.control}
-                            name="income"
+                            name="currency"
                             render={({ field }) => (
                                 <FormItem>
-                                <FormLabel>Monthly Income ({selectedCurrency})</FormLabel>
-                                <FormControl>
-                                    <Input type="number" step="100" placeholder="e.g., 5000" {...field} />
-                                </FormControl>
+                                <FormLabel>Currency</FormLabel>
+                                <Select onValueChange={field.onChange} value={field.value}>
+                                    <FormControl>
+                                    <SelectTrigger>
+                                        <SelectValue placeholder="Select a currency" />
+                                    </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent className="max-h-80">
+                                    {CURRENCY_CODES.map((code) => (
+                                        <SelectItem key={code} value={code}>{getCurrencyLabel(code, selectedLocale)}</SelectItem>
+                                    ))}
+                                    </SelectContent>
+                                </Select>
+                                <FormDescription>Totals are shown in this currency; other currencies are converted with your exchange rates.</FormDescription>
                                 <FormMessage />
                                 </FormItem>
                             )}
                         />
-                         <FormField
+                        <FormField
                             control={form.control}
-                            name="currency"
+                            name="locale"
                             render={({ field }) => (
                                 <FormItem>
-                                <FormLabel>Currency</FormLabel>
+                                <FormLabel>Number Format</FormLabel>
                                 <Select onValueChange={field.onChange} value={field.value}>
                                     <FormControl>
                                     <SelectTrigger>
-                                        <SelectValue placeholder="Select a currency" />
+                                        <SelectValue placeholder="Select a locale" />
                                     </SelectTrigger>
                                     </FormControl>
                                     <SelectContent>
-                                    <SelectItem value="USD">USD ($)</SelectItem>
-                                    <SelectItem value="INR">INR (₹)</SelectItem>
-                                    <SelectItem value="EUR">EUR (€)</SelectItem>
+                                    {SUPPORTED_LOCALES.map((locale) => (
+                                        <SelectItem key={locale.value} value={locale.value}>{locale.label}</SelectItem>
+                                    ))}
                                     </SelectContent>
                                 </Select>
+                                <FormDescription>Looks like {formatCurrency(100000, selectedCurrency, selectedLocale)}</FormDescription>
                                 <FormMessage />
                                 </FormItem>
                             )}
                         />
                     </div>
-                    <FormField
-                    control={form.control}
-                    name="savingsGoal"
-                    render={({ field }) => (
-                        <FormItem>
-                        <FormLabel>Monthly Savings Goal ({selectedCurrency})</FormLabel>
-                        <FormControl>
-                            <Input type="number" step="50" placeholder="e.g., 500" {...field} />
-                        </FormControl>
-                         <FormMessage />
-                        </FormItem>
-                    )}
-                    />
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <FormField
+                        control={form.control}
+                        name="savingsGoal"
+                        render={({ field }) => (
+                            <FormItem>
+                            <FormLabel>Monthly Savings Goal ({selectedCurrency})</FormLabel>
+                            <FormControl>
+                                <Input type="number" step="50" placeholder="e.g., 500" {...field} />
+                            </FormControl>
+                             <FormMessage />
+                            </FormItem>
+                        )}
+                        />
+                        <FormField
+                        control={form.control}
+                        name="periodStartDay"
+                        render={({ field }) => (
+                            <FormItem>
+                            <FormLabel>Budget Period Starts On Day</FormLabel>
+                            <FormControl>
+                                <Input type="number" step="1" min={MIN_PERIOD_START_DAY} max={MAX_PERIOD_START_DAY} placeholder="e.g., 25" {...field} />
+                            </FormControl>
+                            <FormDescription>Use your payday if you're not paid on the 1st.</FormDescription>
+                            <FormMessage />
+                            </FormItem>
+                        )}
+                        />
+                    </div>
+                    <div className="space-y-4 rounded-lg border border-white/10 p-4">
+                        <div>
+                            <h3 className="text-sm font-medium">Budget Allocation</h3>
+                            <p className="text-sm text-muted-foreground">How your income is split between Needs, Wants and Savings.</p>
+                        </div>
+                        <FormField
+                            control={form.control}
+                            name="allocation.preset"
+                            render={({ field }) => (
+                                <FormItem>
+                                <FormLabel>Preset</FormLabel>
+                                <Select onValueChange={(value) => handlePresetChange(value as AllocationPresetId)} value={field.value}>
+                                    <FormControl>
+                                    <SelectTrigger>
+                                        <SelectValue placeholder="Select a preset" />
+                                    </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent>
+                                    {(Object.keys(ALLOCATION_PRESET_LABELS) as AllocationPresetId[]).map((preset) => (
+                                        <SelectItem key={preset} value={preset}>{ALLOCATION_PRESET_LABELS[preset]}</SelectItem>
+                                    ))}
+                                    </SelectContent>
+                                </Select>
+                                <FormMessage />
+                                </FormItem>
+                            )}
+                        />
+                        <div className="grid grid-cols-3 gap-4">
+                            {(['needs', 'wants', 'savings'] as const).map((key) => (
+                                <FormField
+                                    key={key}
+                                    control={form.control}
+                                    name={`allocation.${key}`}
+                                    render={({ field }) => (
+                                        <FormItem>
+                                        <FormLabel className="capitalize">{key} (%)</FormLabel>
+                                        <FormControl>
+                                            <Input
+                                                type="number"
+                                                step="1"
+                                                min={0}
+                                                max={100}
+                                                {...field}
+                                                value={Number.isNaN(field.value) ? '' : field.value}
+                                                onChange={(e) => handlePercentageChange(key, e.target.value)}
+                                            />
+                                        </FormControl>
+                                        <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+                            ))}
+                        </div>
+                        <p className={cn('text-sm font-medium', allocationSum === 100 ? 'text-muted-foreground' : 'text-destructive')}>
+                            Total: {allocationSum}%
+                            {allocationSum !== 100 && ' — Needs, Wants and Savings must add up to 100%.'}
+                        </p>
+                    </div>
+                    <div className="space-y-4 rounded-lg border border-white/10 p-4">
+                        <div>
+                            <h3 className="text-sm font-medium">Budget Alerts</h3>
+                            <p className="text-sm text-muted-foreground">Get notified when spending reaches these percentages of a category's budget. Leave blank for no alerts.</p>
+                        </div>
+                        <div className="grid grid-cols-3 gap-4">
+                            {EXPENSE_CATEGORIES.map((category) => (
+                                <FormField
+                                    key={category}
+                                    control={form.control}
+                                    name={`alertThresholds.${category}`}
+                                    render={({ field }) => (
+                                        <FormItem>
+                                        <FormLabel>{category} (%)</FormLabel>
+                                        <FormControl>
+                                            <Input placeholder="e.g., 80, 100" {...field} />
+                                        </FormControl>
+                                        <FormMessage />
+                                        </FormItem>
+                                    )}
+                                />
+                            ))}
+                        </div>
+                    </div>
                      <FormField
                     control={form.control}
                     name="bio"
@@ -220,6 +432,15 @@ export default function SettingsPage() {
                 </Form>
             </CardContent>
         </Card>
+        <div className="mt-8">
+            <SubcategoryManager />
+        </div>
+        <div className="mt-8">
+            <ExchangeRateManager />
+        </div>
+        <div className="mt-8">
+            <AiUsageCard />
+        </div>
     </div>
   );
 }
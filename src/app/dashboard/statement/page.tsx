@@ -0,0 +1,10 @@
+import { MonthlyStatement } from '@/components/dashboard/monthly-statement';
+
+export default async function StatementPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ start?: string }>;
+}) {
+  const { start } = await searchParams;
+  return <MonthlyStatement start={start} />;
+}
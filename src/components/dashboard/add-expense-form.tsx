@@ -3,13 +3,25 @@
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { collection, addDoc, serverTimestamp } from 'firebase/firestore';
+import { collection, addDoc, serverTimestamp, Timestamp } from 'firebase/firestore';
 import { useFirestore } from '@/firebase/provider';
 import { useAuth } from '@/firebase/auth-provider';
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { errorEmitter } from '@/firebase/error-emitter';
 import { FirestorePermissionError } from '@/firebase/errors';
+import type { CategorySuggestion, Currency, SavingsGoal, Subcategory } from '@/lib/types';
+import { CURRENCIES, CURRENCY_CODES } from '@/lib/currency';
+import { getSubcategoryIcon } from '@/lib/subcategories';
+import { withTimeOfDay } from '@/lib/expenses';
+import { getConfidenceLevel } from '@/lib/categorization';
+import { parseCalendarDate } from '@/lib/recurrence';
+import type { ReceiptExtraction } from '@/lib/receipts';
+import { recordCategoryCorrection, useCategorySuggestion } from '@/hooks/use-category-suggestion';
+import { DatePicker } from './date-picker';
+import { QuickAddExpense } from './quick-add-expense';
+import { ReceiptCapture, type ReceiptAttachment } from './receipt-capture';
 
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import {
   Form,
@@ -29,49 +41,165 @@ import {
 } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Tabs, TabsList, TabsTrigger } from '../ui/tabs';
+import { Sparkles } from 'lucide-react';
 
-const formSchema = z.object({
+export const expenseFormSchema = z.object({
   name: z.string().min(1, { message: 'Expense name is required.' }),
   amount: z.coerce.number().positive({ message: 'Amount must be a positive number.' }),
+  currency: z.enum(CURRENCY_CODES),
   category: z.enum(['Needs', 'Wants', 'Savings']),
+  subcategoryId: z.string().optional(),
+  goalId: z.string().optional(),
+  date: z.date({ required_error: 'Please pick a date.' }),
 });
 
+export type ExpenseFormValues = z.infer<typeof expenseFormSchema>;
+
+// Radix Select can't use an empty string as an item value.
+export const NO_SUBCATEGORY = 'none';
+
+export function toSubcategoryId(value?: string) {
+  return value && value !== NO_SUBCATEGORY ? value : null;
+}
+
+export const NO_GOAL = 'none';
+
+// Only Savings expenses can contribute to a goal.
+export function toGoalId(value: string | undefined, category: ExpenseFormValues['category']) {
+  return category === 'Savings' && value && value !== NO_GOAL ? value : null;
+}
+
+const CONFIDENCE_BADGES = {
+  high: { variant: 'default', label: 'High confidence' },
+  medium: { variant: 'secondary', label: 'Medium confidence' },
+  low: { variant: 'outline', label: 'Low confidence, please check' },
+} as const;
+
 interface AddExpenseFormProps {
-    currency: string;
+    currency: Currency;
+    subcategories: Subcategory[];
+    goals: SavingsGoal[];
 }
 
-export function AddExpenseForm({ currency }: AddExpenseFormProps) {
+export function AddExpenseForm({ currency, subcategories, goals }: AddExpenseFormProps) {
   const { user } = useAuth();
   const db = useFirestore();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
+  const [mode, setMode] = useState<'form' | 'quick'>('form');
+  const [receipt, setReceipt] = useState<ReceiptAttachment | null>(null);
+  // Once the user picks a category themselves, suggestions stop overwriting it.
+  const [isCategoryOverridden, setIsCategoryOverridden] = useState(false);
 
-  const form = useForm<z.infer<typeof formSchema>>({
-    resolver: zodResolver(formSchema),
+  const form = useForm<ExpenseFormValues>({
+    resolver: zodResolver(expenseFormSchema),
     defaultValues: {
       name: '',
       amount: undefined,
+      currency,
       category: 'Needs',
+      subcategoryId: NO_SUBCATEGORY,
+      goalId: NO_GOAL,
+      date: new Date(),
     },
   });
 
-  async function onSubmit(values: z.infer<typeof formSchema>) {
-    if (!user) return;
+  const selectedCategory = form.watch('category');
+  const availableSubcategories = subcategories.filter((s) => s.parent === selectedCategory);
+
+  const { suggestion, loading: isSuggesting } = useCategorySuggestion({
+    name: form.watch('name'),
+    amount: Number(form.watch('amount')),
+    enabled: !!user,
+  });
+
+  const applySuggestion = useCallback(
+    ({ category, subcategoryId }: CategorySuggestion) => {
+      form.setValue('category', category);
+      form.setValue('subcategoryId', subcategoryId ?? NO_SUBCATEGORY);
+    },
+    [form]
+  );
+
+  useEffect(() => {
+    if (suggestion && !isCategoryOverridden) applySuggestion(suggestion);
+  }, [suggestion, isCategoryOverridden, applySuggestion]);
+
+  const renderSuggestion = () => {
+    if (isSuggesting) {
+      return (
+        <span className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Sparkles className="h-3 w-3 animate-pulse" />
+          Suggesting...
+        </span>
+      );
+    }
+    if (!suggestion) return null;
+    if (isCategoryOverridden) {
+      return (
+        <button
+          type="button"
+          className="text-xs text-primary hover:underline"
+          onClick={() => {
+            applySuggestion(suggestion);
+            setIsCategoryOverridden(false);
+          }}
+        >
+          Use suggestion: {suggestion.category}
+        </button>
+      );
+    }
+    const badge = CONFIDENCE_BADGES[getConfidenceLevel(suggestion.confidence)];
+    return (
+      <Badge variant={badge.variant} className="gap-1 font-normal">
+        <Sparkles className="h-3 w-3" />
+        {suggestion.source === 'correction' ? 'From your past choices' : badge.label}
+      </Badge>
+    );
+  };
+
+  // Only fills what the receipt showed, leaving anything the user already typed for the rest.
+  const handleReceiptExtracted = ({ merchant, amount, currency: receiptCurrency, date }: ReceiptExtraction) => {
+    if (merchant) form.setValue('name', merchant, { shouldValidate: true });
+    if (amount) form.setValue('amount', amount, { shouldValidate: true });
+    if (receiptCurrency) form.setValue('currency', receiptCurrency);
+    if (date) form.setValue('date', parseCalendarDate(date), { shouldValidate: true });
+  };
+
+  // Resolves true once the expense is saved, so quick add knows when to clear.
+  async function onSubmit(values: ExpenseFormValues) {
+    if (!user) return false;
     setIsLoading(true);
 
     const expensesColRef = collection(db, 'users', user.uid, 'expenses');
+    const { subcategoryId, goalId, date, ...rest } = values;
+    // Quick add has no receipt, even if one is attached in the hidden form.
+    const attachedReceipt = mode === 'form' ? receipt : null;
     const newExpense = {
-        ...values,
+        ...rest,
+        subcategoryId: toSubcategoryId(subcategoryId),
+        goalId: toGoalId(goalId, values.category),
+        date: Timestamp.fromDate(withTimeOfDay(date)),
+        receiptPath: attachedReceipt?.path ?? null,
+        receiptUrl: attachedReceipt?.url ?? null,
         createdAt: serverTimestamp(),
       };
 
-    addDoc(expensesColRef, newExpense)
+    return addDoc(expensesColRef, newExpense)
       .then(() => {
         toast({
           title: 'Expense Added',
           description: `${values.name} has been added to your ${values.category}.`,
         });
-        form.reset();
+        // Overriding the suggestion teaches the next one.
+        if (suggestion && (values.category !== suggestion.category || newExpense.subcategoryId !== suggestion.subcategoryId)) {
+          recordCategoryCorrection(db, user.uid, values.name, values.category, newExpense.subcategoryId);
+        }
+        form.reset({ ...form.formState.defaultValues, date: new Date() });
+        setIsCategoryOverridden(false);
+        if (attachedReceipt) setReceipt(null);
+        return true;
       })
       .catch((serverError) => {
         const permissionError = new FirestorePermissionError({
@@ -80,6 +208,7 @@ export function AddExpenseForm({ currency }: AddExpenseFormProps) {
           requestResourceData: newExpense,
         });
         errorEmitter.emit('permission-error', permissionError);
+        return false;
       })
       .finally(() => {
         setIsLoading(false);
@@ -88,65 +217,203 @@ export function AddExpenseForm({ currency }: AddExpenseFormProps) {
 
   return (
     <Card className="glassmorphism">
-      <CardHeader>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
         <CardTitle>Add an Expense</CardTitle>
+        <Tabs value={mode} onValueChange={(value) => setMode(value as 'form' | 'quick')}>
+          <TabsList className="h-8">
+            <TabsTrigger value="form" className="text-xs">Form</TabsTrigger>
+            <TabsTrigger value="quick" className="text-xs">Quick add</TabsTrigger>
+          </TabsList>
+        </Tabs>
       </CardHeader>
       <CardContent>
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            <FormField
-              control={form.control}
-              name="name"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Expense Name</FormLabel>
-                  <FormControl>
-                    <Input placeholder="e.g., Groceries" {...field} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
+        {mode === 'quick' ? (
+          <QuickAddExpense
+            currency={currency}
+            isSaving={isLoading}
+            onAdd={onSubmit}
+            onEdit={(values) => {
+              // Keep the empty defaults, so the form clears after this expense is added.
+              form.reset(values, { keepDefaultValues: true });
+              // The quick-add line already settled the category.
+              setIsCategoryOverridden(true);
+              setMode('form');
+            }}
+          />
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <ReceiptCapture
+              receipt={receipt}
+              onReceiptChange={setReceipt}
+              onExtracted={handleReceiptExtracted}
+              disabled={isLoading}
             />
-            <FormField
-              control={form.control}
-              name="amount"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Amount ({currency})</FormLabel>
-                  <FormControl>
-                    <Input type="number" step="0.01" placeholder="e.g., 75.50" {...field} value={field.value ?? ''} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-            <FormField
-              control={form.control}
-              name="category"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Category</FormLabel>
-                  <Select onValueChange={field.onChange} defaultValue={field.value}>
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expense Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Groceries" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid grid-cols-3 gap-4">
+                <FormField
+                  control={form.control}
+                  name="amount"
+                  render={({ field }) => (
+                    <FormItem className="col-span-2">
+                      <FormLabel>Amount</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="0.01" placeholder="e.g., 75.50" {...field} value={field.value ?? ''} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="currency"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Currency</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {CURRENCIES.map((code) => (
+                            <SelectItem key={code} value={code}>{code}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date</FormLabel>
                     <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select a category" />
-                      </SelectTrigger>
+                      <DatePicker value={field.value} onChange={field.onChange} disableFuture />
                     </FormControl>
-                    <SelectContent>
-                      <SelectItem value="Needs">Needs</SelectItem>
-                      <SelectItem value="Wants">Wants</SelectItem>
-                      <SelectItem value="Savings">Savings</SelectItem>
-                    </SelectContent>
-                  </Select>
-                  <FormMessage />
-                </FormItem>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <div className="flex items-center justify-between gap-2">
+                      <FormLabel>Category</FormLabel>
+                      {renderSuggestion()}
+                    </div>
+                    <Select
+                      onValueChange={(value) => {
+                        field.onChange(value);
+                        form.setValue('subcategoryId', NO_SUBCATEGORY);
+                        setIsCategoryOverridden(true);
+                      }}
+                      value={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="Needs">Needs</SelectItem>
+                        <SelectItem value="Wants">Wants</SelectItem>
+                        <SelectItem value="Savings">Savings</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {availableSubcategories.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="subcategoryId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Subcategory</FormLabel>
+                      <Select
+                        onValueChange={(value) => {
+                          field.onChange(value);
+                          setIsCategoryOverridden(true);
+                        }}
+                        value={field.value}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a subcategory" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_SUBCATEGORY}>None</SelectItem>
+                          {availableSubcategories.map((subcategory) => {
+                            const Icon = getSubcategoryIcon(subcategory.icon);
+                            return (
+                              <SelectItem key={subcategory.id} value={subcategory.id}>
+                                <span className="flex items-center gap-2">
+                                  <Icon className="h-4 w-4" style={{ color: subcategory.color }} />
+                                  {subcategory.name}
+                                </span>
+                              </SelectItem>
+                            );
+                          })}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
               )}
-            />
-            <Button type="submit" className="w-full" disabled={isLoading}>
-              {isLoading ? 'Adding...' : 'Add Expense'}
-            </Button>
-          </form>
-        </Form>
+              {selectedCategory === 'Savings' && goals.length > 0 && (
+                <FormField
+                  control={form.control}
+                  name="goalId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Savings Goal</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Select a goal" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_GOAL}>None</SelectItem>
+                          {goals.map((goal) => (
+                            <SelectItem key={goal.id} value={goal.id}>{goal.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+              <Button type="submit" className="w-full" disabled={isLoading}>
+                {isLoading ? 'Adding...' : 'Add Expense'}
+              </Button>
+            </form>
+          </Form>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,158 @@
+'use client';
+
+import { useState } from 'react';
+import { addDoc, collection, doc, serverTimestamp, Timestamp, updateDoc, writeBatch } from 'firebase/firestore';
+import { format } from 'date-fns';
+import { useFirestore } from '@/firebase/provider';
+import { useAuth } from '@/firebase/auth-provider';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { useToast } from '@/hooks/use-toast';
+import { useFormatCurrency } from '@/hooks/use-format-currency';
+import { matchAllocationPreset } from '@/lib/allocation';
+import { withTimeOfDay } from '@/lib/expenses';
+import { parseCalendarDate } from '@/lib/recurrence';
+import type { AdvisorAction, AdvisorActionStatus } from '@/lib/types';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ArrowRightLeft, Check, PieChart, PlusCircle, X } from 'lucide-react';
+
+const ACTION_ICONS = {
+  addExpense: PlusCircle,
+  recategorizeExpenses: ArrowRightLeft,
+  updateAllocation: PieChart,
+};
+
+interface AdvisorActionCardProps {
+  action: AdvisorAction;
+  onStatusChange: (status: AdvisorActionStatus) => void;
+  // Blocked while another answer is being written to the conversation, which would race the status rewrite.
+  disabled?: boolean;
+}
+
+export function AdvisorActionCard({ action, onStatusChange, disabled }: AdvisorActionCardProps) {
+  const formatCurrency = useFormatCurrency();
+  const { user, userData } = useAuth();
+  const db = useFirestore();
+  const { toast } = useToast();
+  const [isApplying, setIsApplying] = useState(false);
+  const currency = userData?.currency || 'USD';
+  const Icon = ACTION_ICONS[action.type];
+
+  const emitPermissionError = (path: string, operation: 'create' | 'update', requestResourceData: unknown) => {
+    const permissionError = new FirestorePermissionError({ path, operation, requestResourceData });
+    errorEmitter.emit('permission-error', permissionError);
+  };
+
+  // Runs the write for this proposal; resolves once Firestore has accepted it.
+  const applyAction = (uid: string): Promise<unknown> => {
+    if (action.type === 'addExpense' && action.expense) {
+      const { name, amount, category, date } = action.expense;
+      const expensesColRef = collection(db, 'users', uid, 'expenses');
+      const newExpense = {
+        name,
+        amount,
+        currency,
+        category,
+        subcategoryId: null,
+        goalId: null,
+        date: Timestamp.fromDate(withTimeOfDay(date ? parseCalendarDate(date) : new Date())),
+        createdAt: serverTimestamp(),
+      };
+      return addDoc(expensesColRef, newExpense).catch((serverError) => {
+        emitPermissionError(expensesColRef.path, 'create', newExpense);
+        throw serverError;
+      });
+    }
+
+    if (action.type === 'recategorizeExpenses' && action.expenseIds && action.category) {
+      // Subcategories and goals belong to the old category, so they're cleared.
+      const update = {
+        category: action.category,
+        subcategoryId: null,
+        ...(action.category !== 'Savings' ? { goalId: null } : {}),
+      };
+      const batch = writeBatch(db);
+      action.expenseIds.forEach((expenseId) => batch.update(doc(db, 'users', uid, 'expenses', expenseId), update));
+      return batch.commit().catch((serverError) => {
+        emitPermissionError(`users/${uid}/expenses`, 'update', update);
+        throw serverError;
+      });
+    }
+
+    if (action.type === 'updateAllocation' && action.allocation) {
+      const { needs, wants, savings } = action.allocation;
+      const userDocRef = doc(db, 'users', uid);
+      const update = { allocation: { preset: matchAllocationPreset(needs, wants, savings), needs, wants, savings } };
+      return updateDoc(userDocRef, update).catch((serverError) => {
+        emitPermissionError(userDocRef.path, 'update', update);
+        throw serverError;
+      });
+    }
+
+    return Promise.reject(new Error(`Unsupported action: ${action.type}`));
+  };
+
+  const handleApply = () => {
+    if (!user) return;
+    setIsApplying(true);
+
+    applyAction(user.uid)
+      .then(() => {
+        toast({ title: 'Change Applied', description: action.summary });
+        onStatusChange('applied');
+      })
+      .catch(() => {
+        // Permission errors are surfaced by the listener; anything else just leaves the proposal pending.
+      })
+      .finally(() => {
+        setIsApplying(false);
+      });
+  };
+
+  const renderDetails = () => {
+    if (action.expense) {
+      const { name, amount, category, date } = action.expense;
+      return `${name} · ${formatCurrency(amount, currency)} · ${category} · ${format(date ? parseCalendarDate(date) : new Date(), 'MMM d, yyyy')}`;
+    }
+    if (action.expenseIds && action.category) {
+      return `${action.expenseIds.length} expense${action.expenseIds.length === 1 ? '' : 's'} → ${action.category}`;
+    }
+    if (action.allocation) {
+      const { needs, wants, savings } = action.allocation;
+      return `Needs ${needs}% · Wants ${wants}% · Savings ${savings}%`;
+    }
+    return null;
+  };
+
+  return (
+    <div className="rounded-md border bg-background/60 p-3 text-foreground">
+      <div className="flex items-start gap-2">
+        <Icon className="mt-0.5 h-4 w-4 shrink-0 text-primary" />
+        <div className="min-w-0 flex-1 space-y-1">
+          <p className="font-medium">{action.summary}</p>
+          <p className="text-xs text-muted-foreground">{renderDetails()}</p>
+        </div>
+      </div>
+      <div className="mt-3 flex justify-end gap-2">
+        {action.status === 'pending' ? (
+          <>
+            <Button size="sm" variant="ghost" className="h-7 gap-1" onClick={() => onStatusChange('dismissed')} disabled={isApplying || disabled}>
+              <X className="h-3.5 w-3.5" />
+              Dismiss
+            </Button>
+            <Button size="sm" className="h-7 gap-1" onClick={handleApply} disabled={isApplying || disabled || !user}>
+              <Check className="h-3.5 w-3.5" />
+              {isApplying ? 'Applying...' : 'Apply'}
+            </Button>
+          </>
+        ) : (
+          <Badge variant={action.status === 'applied' ? 'default' : 'secondary'}>
+            {action.status === 'applied' ? 'Applied' : 'Dismissed'}
+          </Badge>
+        )}
+      </div>
+    </div>
+  );
+}
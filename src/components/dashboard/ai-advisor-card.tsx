@@ -1,15 +1,25 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Send, Sparkles, User } from 'lucide-react';
-import type { Expense } from '@/lib/types';
+import { Send, Sparkles, Square, User } from 'lucide-react';
+import { doc, updateDoc } from 'firebase/firestore';
+import type { AdvisorAction, AdvisorActionStatus, ChatSender, Expense } from '@/lib/types';
 import { Skeleton } from '../ui/skeleton';
 import { Avatar, AvatarFallback, AvatarImage } from '../ui/avatar';
 import { ScrollArea } from '../ui/scroll-area';
 import { useAuth } from '@/firebase/auth-provider';
+import { useFirestore } from '@/firebase/provider';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { readAdvisorStream } from '@/lib/advisor-stream';
+import { MAX_ADVISOR_QUERY_LENGTH } from '@/lib/ai-usage';
+import { getClientClock } from '@/lib/client-clock';
+import { useConversations } from '@/hooks/use-conversations';
+import { ConversationSidebar } from './conversation-sidebar';
+import { AdvisorActionCard } from './advisor-action-card';
 
 interface AIAdvisorCardProps {
   expenses: Expense[]; // This is kept for potential future client-side use, but not sent to the API
@@ -17,29 +27,138 @@ interface AIAdvisorCardProps {
 }
 
 interface Message {
-    sender: 'user' | 'ai';
+    sender: ChatSender;
     text: string;
     isError?: boolean;
+    // The user stopped the answer part-way through.
+    isStopped?: boolean;
+    actions?: AdvisorAction[];
+    // Position in the saved conversation; proposals can only be applied once their message is saved.
+    savedIndex?: number;
+}
+
+const WELCOME_MESSAGE: Message = { sender: 'ai', text: 'Welcome! Ask me anything about your finances.' };
+
+// The turn being asked right now. Saved messages replace the pending ones they cover, so an
+// error shown after a question the server saved stays on screen.
+interface PendingTurn {
+    conversationId: string | null;
+    // How many saved messages the conversation had when the question was asked.
+    baseCount: number;
+    messages: Message[];
 }
 
 export function AIAdvisorCard({ expenses, income }: AIAdvisorCardProps) {
   const { user, userData } = useAuth();
-  const [messages, setMessages] = useState<Message[]>([
-    { sender: 'ai', text: 'Welcome! Ask me anything about your finances.' }
-  ]);
+  const db = useFirestore();
+  const { conversations, loading: conversationsLoading } = useConversations();
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [pendingTurn, setPendingTurn] = useState<PendingTurn | null>(null);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // True once the first words of an answer have arrived, which replaces the typing indicator.
+  const [isStreaming, setIsStreaming] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const hasResumedRef = useRef(false);
+
+  // Pick up the most recent conversation when the chat opens.
+  useEffect(() => {
+    if (conversationsLoading || hasResumedRef.current) return;
+    hasResumedRef.current = true;
+    if (conversations.length > 0) {
+      setActiveConversationId(conversations[0].id);
+    }
+  }, [conversations, conversationsLoading]);
+
+  // Leaving the chat cancels an answer that's still streaming.
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  const activeConversation = conversations.find((conversation) => conversation.id === activeConversationId);
+  const savedMessages: Message[] = (activeConversation?.messages || []).map(({ sender, text, isStopped, actions }, index) => ({
+    sender,
+    text,
+    isStopped,
+    actions,
+    savedIndex: index,
+  }));
+  const pendingMessages =
+    pendingTurn && pendingTurn.conversationId === activeConversationId
+      ? pendingTurn.messages.slice(Math.max(savedMessages.length - pendingTurn.baseCount, 0))
+      : [];
+  const conversationMessages = [...savedMessages, ...pendingMessages];
+  const messages = conversationMessages.length > 0 ? conversationMessages : [WELCOME_MESSAGE];
+
+  const handleSelectConversation = (conversationId: string) => {
+    setActiveConversationId(conversationId);
+    setPendingTurn(null);
+  };
+
+  const handleNewConversation = () => {
+    setActiveConversationId(null);
+    setPendingTurn(null);
+  };
+
+  // Records that a proposal was applied or dismissed by rewriting its saved message.
+  const handleActionStatusChange = (messageIndex: number, actionIndex: number, status: AdvisorActionStatus) => {
+    if (!user || !activeConversation) return;
+    const conversationDocRef = doc(db, 'users', user.uid, 'conversations', activeConversation.id);
+    const messages = activeConversation.messages.map((message, index) =>
+      index === messageIndex
+        ? { ...message, actions: message.actions?.map((action, i) => (i === actionIndex ? { ...action, status } : action)) }
+        : message
+    );
+
+    updateDoc(conversationDocRef, { messages }).catch((serverError) => {
+      const permissionError = new FirestorePermissionError({
+        path: conversationDocRef.path,
+        operation: 'update',
+        requestResourceData: { messages },
+      });
+      errorEmitter.emit('permission-error', permissionError);
+    });
+  };
+
+  const renderActions = ({ actions, savedIndex }: Message) => {
+    if (!actions?.length || savedIndex === undefined) return null;
+    return (
+      <div className="mt-3 space-y-2 whitespace-normal">
+        {actions.map((action, actionIndex) => (
+          <AdvisorActionCard
+            key={actionIndex}
+            action={action}
+            disabled={isLoading}
+            onStatusChange={(status) => handleActionStatusChange(savedIndex, actionIndex, status)}
+          />
+        ))}
+      </div>
+    );
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim() || !user) return;
 
     const userMessage: Message = { sender: 'user', text: input };
-    setMessages(prev => [...prev, userMessage]);
     const currentInput = input;
     setInput('');
     setIsLoading(true);
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let conversationId = activeConversationId;
+    const baseCount = savedMessages.length;
+    let answer = '';
+
+    // The question shows straight away; the answer is added with its first words.
+    const showTurn = (...replies: Message[]) => {
+      setPendingTurn({ conversationId, baseCount, messages: [userMessage, ...replies] });
+    };
+    showTurn();
+
     try {
       const token = await user.getIdToken();
 
@@ -51,24 +170,39 @@ export function AIAdvisorCard({ expenses, income }: AIAdvisorCardProps) {
         },
         body: JSON.stringify({
           query: currentInput,
+          conversationId: conversationId ?? undefined,
+          ...getClientClock(),
         }),
+        signal: abortController.signal,
       });
 
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
         const errorData = await response.json().catch(() => ({ error: 'An unknown server error occurred.' }));
         throw new Error(errorData.error || `Request failed with status ${response.status}`);
       }
 
-      const result = await response.json();
-
-      if (result.error) {
-        throw new Error(result.error);
+      for await (const event of readAdvisorStream(response.body)) {
+        if (event.type === 'error') {
+          throw new Error(event.error);
+        }
+        if (event.type === 'conversation') {
+          // A new conversation was started for this question.
+          conversationId = event.id;
+          setActiveConversationId(event.id);
+          showTurn();
+          continue;
+        }
+        answer = event.type === 'done' ? event.answer : answer + event.text;
+        showTurn({ sender: 'ai', text: answer });
+        setIsStreaming(true);
       }
-      
-      const aiMessage: Message = { sender: 'ai', text: result.answer };
-      setMessages(prev => [...prev, aiMessage]);
 
     } catch (e: any) {
+      if (abortController.signal.aborted) {
+        showTurn(answer ? { sender: 'ai', text: answer, isStopped: true } : { sender: 'ai', text: 'Stopped before I could answer.' });
+        return;
+      }
+
       const genericError = 'Sorry, I couldn\'t generate a response right now. Please try again later.';
       let displayMessage = genericError;
 
@@ -79,78 +213,99 @@ export function AIAdvisorCard({ expenses, income }: AIAdvisorCardProps) {
       }
       
       const aiErrorMessage: Message = { sender: 'ai', text: displayMessage, isError: true };
-      setMessages(prev => [...prev, aiErrorMessage]);
+      showTurn(...(answer ? [{ sender: 'ai' as const, text: answer }] : []), aiErrorMessage);
     } finally {
+      abortControllerRef.current = null;
+      setIsStreaming(false);
       setIsLoading(false);
     }
   };
 
   return (
-    <Card className="glassmorphism flex flex-col h-[550px]">
-      <CardHeader>
-        <div className="flex items-center gap-3">
-          <Sparkles className="h-6 w-6 text-primary" />
-          <CardTitle>AI Financial Chat</CardTitle>
-        </div>
-        <CardDescription>Ask me anything about your spending.</CardDescription>
-      </CardHeader>
-      <CardContent className="flex flex-col flex-1 gap-4 overflow-hidden">
-        <ScrollArea className="flex-1 pr-4 -mr-4">
-            <div className="space-y-4">
-            {messages.map((message, index) => (
-                <div key={index} className={`flex items-start gap-3 ${message.sender === 'user' ? 'justify-end' : ''}`}>
-                    {message.sender === 'ai' && (
-                        <Avatar className={`w-8 h-8 border ${message.isError ? 'border-destructive' : ''}`}>
-                            <AvatarFallback className="bg-transparent">
-                                <Sparkles className={`w-5 h-5 ${message.isError ? 'text-destructive' : 'text-primary'}`} />
-                            </AvatarFallback>
-                        </Avatar>
-                    )}
-                    <div className={`rounded-lg p-3 max-w-[80%] text-sm whitespace-pre-wrap ${message.sender === 'user' ? 'bg-primary text-primary-foreground' : (message.isError ? 'bg-destructive/10 text-destructive' : 'bg-muted')}`}>
-                        <p>{message.text}</p>
-                    </div>
-                     {message.sender === 'user' && (
-                        <Avatar className="w-8 h-8">
-                             <AvatarImage src={userData?.photoURL || user?.photoURL || undefined} />
-                             <AvatarFallback>
-                                <User className="w-5 h-5" />
-                            </AvatarFallback>
-                        </Avatar>
-                    )}
-                </div>
-            ))}
-            {isLoading && (
-                <div className="flex items-start gap-3">
-                    <Avatar className="w-8 h-8 border">
-                        <AvatarFallback className="bg-transparent">
-                            <Sparkles className="w-5 h-5 text-primary" />
-                        </AvatarFallback>
-                    </Avatar>
-                    <div className="rounded-lg p-3 max-w-[80%] text-sm bg-muted">
-                        <div className="flex gap-1.5 items-center">
-                            <span className="h-2 w-2 rounded-full bg-slate-400 animate-pulse" />
-                            <span className="h-2 w-2 rounded-full bg-slate-400 animate-pulse delay-150" />
-                            <span className="h-2 w-2 rounded-full bg-slate-400 animate-pulse delay-300" />
-                        </div>
-                    </div>
-                </div>
+    <div className="grid gap-6 md:grid-cols-[260px_1fr]">
+      <ConversationSidebar
+        conversations={conversations}
+        activeConversationId={activeConversationId}
+        onSelect={handleSelectConversation}
+        onNewConversation={handleNewConversation}
+        disabled={isLoading}
+      />
+      <Card className="glassmorphism flex flex-col h-[550px]">
+        <CardHeader>
+          <div className="flex items-center gap-3">
+            <Sparkles className="h-6 w-6 text-primary" />
+            <CardTitle>AI Financial Chat</CardTitle>
+          </div>
+          <CardDescription>{activeConversation?.title || 'Ask me anything about your spending.'}</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col flex-1 gap-4 overflow-hidden">
+          <ScrollArea className="flex-1 pr-4 -mr-4">
+              <div className="space-y-4">
+              {messages.map((message, index) => (
+                  <div key={index} className={`flex items-start gap-3 ${message.sender === 'user' ? 'justify-end' : ''}`}>
+                      {message.sender === 'ai' && (
+                          <Avatar className={`w-8 h-8 border ${message.isError ? 'border-destructive' : ''}`}>
+                              <AvatarFallback className="bg-transparent">
+                                  <Sparkles className={`w-5 h-5 ${message.isError ? 'text-destructive' : 'text-primary'}`} />
+                              </AvatarFallback>
+                          </Avatar>
+                      )}
+                      <div className={`rounded-lg p-3 max-w-[80%] text-sm whitespace-pre-wrap ${message.sender === 'user' ? 'bg-primary text-primary-foreground' : (message.isError ? 'bg-destructive/10 text-destructive' : 'bg-muted')}`}>
+                          <p>{message.text}</p>
+                          {message.isStopped && <p className="mt-2 text-xs italic text-muted-foreground">Stopped</p>}
+                          {renderActions(message)}
+                      </div>
+                       {message.sender === 'user' && (
+                          <Avatar className="w-8 h-8">
+                               <AvatarImage src={userData?.photoURL || user?.photoURL || undefined} />
+                               <AvatarFallback>
+                                  <User className="w-5 h-5" />
+                              </AvatarFallback>
+                          </Avatar>
+                      )}
+                  </div>
+              ))}
+              {isLoading && !isStreaming && (
+                  <div className="flex items-start gap-3">
+                      <Avatar className="w-8 h-8 border">
+                          <AvatarFallback className="bg-transparent">
+                              <Sparkles className="w-5 h-5 text-primary" />
+                          </AvatarFallback>
+                      </Avatar>
+                      <div className="rounded-lg p-3 max-w-[80%] text-sm bg-muted">
+                          <div className="flex gap-1.5 items-center">
+                              <span className="h-2 w-2 rounded-full bg-slate-400 animate-pulse" />
+                              <span className="h-2 w-2 rounded-full bg-slate-400 animate-pulse delay-150" />
+                              <span className="h-2 w-2 rounded-full bg-slate-400 animate-pulse delay-300" />
+                          </div>
+                      </div>
+                  </div>
+              )}
+              </div>
+          </ScrollArea>
+          <form onSubmit={handleSendMessage} className="flex items-center gap-2 pt-4 border-t border-slate-700">
+            <Input
+              value={input}
+              onChange={(e) => {
+                setInput(e.target.value);
+              }}
+              placeholder="e.g., Where can I save money?"
+              maxLength={MAX_ADVISOR_QUERY_LENGTH}
+              disabled={isLoading}
+            />
+            {isLoading ? (
+              <Button type="button" size="icon" variant="outline" className="shrink-0" onClick={handleStop}>
+                <Square className="h-4 w-4" />
+                <span className="sr-only">Stop</span>
+              </Button>
+            ) : (
+              <Button type="submit" size="icon" disabled={!user} variant="outline" className="shrink-0">
+                <Send className="h-4 w-4" />
+              </Button>
             )}
-            </div>
-        </ScrollArea>
-        <form onSubmit={handleSendMessage} className="flex items-center gap-2 pt-4 border-t border-slate-700">
-          <Input
-            value={input}
-            onChange={(e) => {
-              setInput(e.target.value);
-            }}
-            placeholder="e.g., Where can I save money?"
-            disabled={isLoading}
-          />
-          <Button type="submit" size="icon" disabled={isLoading || !user} variant="outline" className="shrink-0">
-            <Send className="h-4 w-4" />
-          </Button>
-        </form>
-      </CardContent>
-    </Card>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
   );
 }
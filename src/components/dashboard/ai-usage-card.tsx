@@ -0,0 +1,114 @@
+'use client';
+
+import { useAiUsage } from '@/hooks/use-ai-usage';
+import { useFormatCurrency } from '@/hooks/use-format-currency';
+import {
+  AI_FEATURE_LABELS,
+  DAILY_TOKEN_QUOTA,
+  RATE_LIMIT_REQUESTS,
+  SUGGESTION_RATE_LIMIT_REQUESTS,
+  estimateCost,
+  getUsageDay,
+} from '@/lib/ai-usage';
+import type { AiFeature } from '@/lib/types';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+/**
+ * This month's AI requests, tokens and estimated cost, with today's progress
+ * toward the daily token quota.
+ */
+export function AiUsageCard() {
+  const { usage, loading } = useAiUsage();
+  const formatCurrency = useFormatCurrency();
+
+  // Costs are in USD and usually fractions of a cent.
+  const formatCost = (cost: number) =>
+    cost > 0 && cost < 0.01 ? `< ${formatCurrency(0.01, 'USD')}` : formatCurrency(cost, 'USD');
+  const formatTokens = (tokens: number) => tokens.toLocaleString();
+
+  const todayTokens = usage?.dailyTokens?.[getUsageDay(new Date())] ?? 0;
+  const features = (Object.keys(AI_FEATURE_LABELS) as AiFeature[]).filter((feature) => usage?.features?.[feature]);
+
+  return (
+    <Card className="glassmorphism">
+      <CardHeader>
+        <CardTitle>AI Usage</CardTitle>
+        <CardDescription>
+          Requests and estimated cost this month (UTC). Up to {RATE_LIMIT_REQUESTS} requests and{' '}
+          {SUGGESTION_RATE_LIMIT_REQUESTS} category suggestions a minute, and {formatTokens(DAILY_TOKEN_QUOTA)} tokens a day.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <Skeleton className="h-24 rounded-lg" />
+        ) : !usage ? (
+          <p className="text-sm text-muted-foreground">You haven't used any AI features this month.</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <p className="text-2xl font-bold">{usage.requests ?? 0}</p>
+                <p className="text-xs text-muted-foreground">Requests</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold">{formatTokens((usage.inputTokens ?? 0) + (usage.outputTokens ?? 0))}</p>
+                <p className="text-xs text-muted-foreground">Tokens</p>
+              </div>
+              <div>
+                <p className="text-2xl font-bold">
+                  {formatCost(estimateCost({ inputTokens: usage.inputTokens ?? 0, outputTokens: usage.outputTokens ?? 0 }))}
+                </p>
+                <p className="text-xs text-muted-foreground">Estimated cost</p>
+              </div>
+            </div>
+
+            <div className="space-y-1.5 text-sm">
+              <div className="flex justify-between gap-4">
+                <span className="font-medium">Today</span>
+                <span className="text-muted-foreground">
+                  {formatTokens(todayTokens)} of {formatTokens(DAILY_TOKEN_QUOTA)} tokens
+                </span>
+              </div>
+              <Progress value={Math.min(100, (todayTokens / DAILY_TOKEN_QUOTA) * 100)} />
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Feature</TableHead>
+                  <TableHead className="text-right">Requests</TableHead>
+                  <TableHead className="text-right">Tokens</TableHead>
+                  <TableHead className="text-right">Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {features.map((feature) => {
+                  const { requests = 0, inputTokens = 0, outputTokens = 0 } = usage.features[feature]!;
+                  return (
+                    <TableRow key={feature}>
+                      <TableCell className="font-medium">{AI_FEATURE_LABELS[feature]}</TableCell>
+                      <TableCell className="text-right">{requests}</TableCell>
+                      <TableCell className="text-right">{formatTokens(inputTokens + outputTokens)}</TableCell>
+                      <TableCell className="text-right">{formatCost(estimateCost({ inputTokens, outputTokens }))}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
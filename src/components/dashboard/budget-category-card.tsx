@@ -2,7 +2,7 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
-import { formatCurrency } from '@/lib/currency';
+import { useFormatCurrency } from '@/hooks/use-format-currency';
 import { cn } from '@/lib/utils';
 import { useEffect, useState } from 'react';
 
@@ -10,6 +10,7 @@ interface BudgetCategoryCardProps {
   title: string;
   icon: React.ReactNode;
   allocated: number;
+  allocationPercent: number;
   spent: number;
   colorClass: string;
   currency: string;
@@ -19,10 +20,12 @@ export function BudgetCategoryCard({
   title,
   icon,
   allocated,
+  allocationPercent,
   spent,
   colorClass,
   currency,
 }: BudgetCategoryCardProps) {
+  const formatCurrency = useFormatCurrency();
   const [progress, setProgress] = useState(0);
   
   const rawProgressValue = allocated > 0 ? (spent / allocated) * 100 : 0;
@@ -45,7 +48,7 @@ export function BudgetCategoryCard({
       <CardContent className="pt-2">
         <div className={cn("text-2xl font-bold", isOverBudget && "text-destructive")}>{formatCurrency(spent, currency)}</div>
         <p className="text-xs text-muted-foreground">
-          of {formatCurrency(allocated, currency)} budget
+          of {formatCurrency(allocated, currency)} budget ({allocationPercent}% of income)
         </p>
         <Progress value={progress} indicatorClassName={cn(isOverBudget ? 'bg-destructive' : colorClass)} className="mt-4 h-2" />
         <div className="flex justify-between text-xs font-medium text-muted-foreground mt-1">
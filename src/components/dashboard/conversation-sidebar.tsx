@@ -0,0 +1,192 @@
+'use client';
+
+import { useState } from 'react';
+import { deleteDoc, doc, updateDoc } from 'firebase/firestore';
+import { formatDistanceToNow } from 'date-fns';
+import { useFirestore } from '@/firebase/provider';
+import { useAuth } from '@/firebase/auth-provider';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { useToast } from '@/hooks/use-toast';
+import { MAX_CONVERSATION_TITLE_LENGTH } from '@/lib/conversations';
+import type { Conversation } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Check, MessageSquarePlus, Pencil, Trash2, X } from 'lucide-react';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  onSelect: (conversationId: string) => void;
+  onNewConversation: () => void;
+  // Switching is blocked while an answer is streaming into the active conversation.
+  disabled?: boolean;
+}
+
+export function ConversationSidebar({
+  conversations,
+  activeConversationId,
+  onSelect,
+  onNewConversation,
+  disabled,
+}: ConversationSidebarProps) {
+  const { user } = useAuth();
+  const db = useFirestore();
+  const { toast } = useToast();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingTitle, setEditingTitle] = useState('');
+  const [conversationToDelete, setConversationToDelete] = useState<Conversation | null>(null);
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setEditingTitle(conversation.title);
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    const title = editingTitle.trim().slice(0, MAX_CONVERSATION_TITLE_LENGTH);
+    if (!user || !editingId || !title) return;
+    const conversationDocRef = doc(db, 'users', user.uid, 'conversations', editingId);
+
+    updateDoc(conversationDocRef, { title })
+      .then(() => setEditingId(null))
+      .catch((serverError) => {
+        const permissionError = new FirestorePermissionError({
+          path: conversationDocRef.path,
+          operation: 'update',
+          requestResourceData: { title },
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      });
+  };
+
+  const handleConfirmDelete = () => {
+    if (!user || !conversationToDelete) return;
+    const conversation = conversationToDelete;
+    const conversationDocRef = doc(db, 'users', user.uid, 'conversations', conversation.id);
+
+    deleteDoc(conversationDocRef)
+      .then(() => {
+        if (conversation.id === activeConversationId) onNewConversation();
+        toast({ title: 'Conversation Deleted', description: conversation.title });
+      })
+      .catch((serverError) => {
+        const permissionError = new FirestorePermissionError({
+          path: conversationDocRef.path,
+          operation: 'delete',
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      })
+      .finally(() => setConversationToDelete(null));
+  };
+
+  return (
+    <>
+      <Card className="glassmorphism flex flex-col md:h-[550px]">
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-base">Conversations</CardTitle>
+          <Button variant="outline" size="sm" className="gap-2" onClick={onNewConversation} disabled={disabled}>
+            <MessageSquarePlus className="h-4 w-4" />
+            New
+          </Button>
+        </CardHeader>
+        <CardContent className="flex-1 overflow-hidden">
+          {conversations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Your conversations will be saved here.</p>
+          ) : (
+            <div className="h-full max-h-64 overflow-y-auto md:max-h-none">
+              <ul className="space-y-1">
+                {conversations.map((conversation) => (
+                  <li key={conversation.id}>
+                    {editingId === conversation.id ? (
+                      <form onSubmit={handleRename} className="flex items-center gap-1">
+                        <Input
+                          value={editingTitle}
+                          onChange={(e) => setEditingTitle(e.target.value)}
+                          maxLength={MAX_CONVERSATION_TITLE_LENGTH}
+                          className="h-8"
+                          autoFocus
+                        />
+                        <Button type="submit" variant="ghost" size="icon" className="h-8 w-8 shrink-0">
+                          <Check className="h-4 w-4" />
+                          <span className="sr-only">Save title</span>
+                        </Button>
+                        <Button type="button" variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={() => setEditingId(null)}>
+                          <X className="h-4 w-4" />
+                          <span className="sr-only">Cancel</span>
+                        </Button>
+                      </form>
+                    ) : (
+                      <div
+                        className={cn(
+                          'group flex items-center gap-1 rounded-md pr-1 hover:bg-accent/50',
+                          conversation.id === activeConversationId && 'bg-accent/50'
+                        )}
+                      >
+                        <button
+                          type="button"
+                          className="min-w-0 flex-1 px-2 py-1.5 text-left disabled:cursor-not-allowed"
+                          onClick={() => onSelect(conversation.id)}
+                          disabled={disabled}
+                        >
+                          <span className="block truncate text-sm">{conversation.title}</span>
+                          {conversation.updatedAt && (
+                            <span className="block text-xs text-muted-foreground">
+                              {formatDistanceToNow(conversation.updatedAt.toDate(), { addSuffix: true })}
+                            </span>
+                          )}
+                        </button>
+                        <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={() => startRename(conversation)}>
+                          <Pencil className="h-3.5 w-3.5" />
+                          <span className="sr-only">Rename conversation</span>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 shrink-0 text-destructive hover:text-destructive"
+                          onClick={() => setConversationToDelete(conversation)}
+                          disabled={disabled && conversation.id === activeConversationId}
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                          <span className="sr-only">Delete conversation</span>
+                        </Button>
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={!!conversationToDelete} onOpenChange={(open) => !open && setConversationToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &ldquo;{conversationToDelete?.title}&rdquo; and all of its messages will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,432 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  serverTimestamp,
+  Timestamp,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { addDays, format, max as maxDate, min as minDate, setHours, startOfDay } from 'date-fns';
+import { useFirestore } from '@/firebase/provider';
+import { useAuth } from '@/firebase/auth-provider';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { useToast } from '@/hooks/use-toast';
+import type { Currency, Expense, ExpenseCategory } from '@/lib/types';
+import { useFormatCurrency } from '@/hooks/use-format-currency';
+import { isTrashed } from '@/lib/trash';
+import {
+  CSV_DATE_FORMATS,
+  detectDelimiter,
+  findDuplicateRows,
+  guessCsvMapping,
+  mapCsvRows,
+  parseCsv,
+  type CsvColumnMapping,
+  type CsvDateFormat,
+  type CsvParseIssue,
+  type CsvSignConvention,
+  type CsvTransaction,
+} from '@/lib/csv';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertTriangle, FileUp } from 'lucide-react';
+
+// Firestore caps a batch at 500 writes.
+const BATCH_SIZE = 450;
+const NO_COLUMN = 'none';
+
+type Step = 'upload' | 'map' | 'preview';
+
+interface PreviewRow extends CsvTransaction {
+  include: boolean;
+  duplicate: boolean;
+  category: ExpenseCategory;
+}
+
+interface CsvImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currency: Currency;
+}
+
+export function CsvImportDialog({ open, onOpenChange, currency }: CsvImportDialogProps) {
+  const formatCurrency = useFormatCurrency();
+  const { user } = useAuth();
+  const db = useFirestore();
+  const { toast } = useToast();
+
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [header, setHeader] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<Partial<CsvColumnMapping>>({});
+  const [previewRows, setPreviewRows] = useState<PreviewRow[]>([]);
+  const [issues, setIssues] = useState<CsvParseIssue[]>([]);
+  const [skippedCredits, setSkippedCredits] = useState(0);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setHeader([]);
+    setDataRows([]);
+    setMapping({});
+    setPreviewRows([]);
+    setIssues([]);
+    setSkippedCredits(0);
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset();
+    onOpenChange(nextOpen);
+  };
+
+  const handleFile = async (file: File) => {
+    const text = await file.text();
+    const rows = parseCsv(text, detectDelimiter(text));
+    if (rows.length < 2) {
+      toast({ variant: 'destructive', title: 'Empty File', description: 'The CSV needs a header row and at least one transaction.' });
+      return;
+    }
+    setFileName(file.name);
+    setHeader(rows[0]);
+    setDataRows(rows.slice(1));
+    setMapping({
+      dateFormat: 'yyyy-MM-dd',
+      signConvention: 'negative-is-debit',
+      ...guessCsvMapping(rows[0]),
+    });
+    setStep('map');
+  };
+
+  const isMappingComplete =
+    mapping.date !== undefined &&
+    mapping.description !== undefined &&
+    mapping.amount !== undefined &&
+    (mapping.signConvention !== 'separate-columns' || mapping.credit !== undefined);
+
+  const handleBuildPreview = async () => {
+    if (!user || !isMappingComplete) return;
+    setIsWorking(true);
+
+    const { transactions, issues } = mapCsvRows(dataRows, mapping as CsvColumnMapping);
+    const debits = transactions.filter((t) => t.isDebit);
+
+    // Only fetch existing expenses in the statement's date range for duplicate checks.
+    let existing: Expense[] = [];
+    const expensesColRef = collection(db, 'users', user.uid, 'expenses');
+    if (debits.length > 0) {
+      const dates = debits.map((t) => t.date);
+      try {
+        const snapshot = await getDocs(query(
+          expensesColRef,
+          where('date', '>=', Timestamp.fromDate(startOfDay(minDate(dates)))),
+          where('date', '<', Timestamp.fromDate(addDays(startOfDay(maxDate(dates)), 1)))
+        ));
+        existing = snapshot.docs
+          .map(doc => ({ id: doc.id, ...doc.data() }) as Expense)
+          .filter(expense => !isTrashed(expense));
+      } catch (error) {
+        const permissionError = new FirestorePermissionError({
+          path: expensesColRef.path,
+          operation: 'list',
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      }
+    }
+
+    const duplicates = findDuplicateRows(debits, existing);
+    setPreviewRows(debits.map((t) => ({
+      ...t,
+      duplicate: duplicates.has(t.row),
+      include: !duplicates.has(t.row),
+      category: 'Needs',
+    })));
+    setIssues(issues);
+    setSkippedCredits(transactions.length - debits.length);
+    setStep('preview');
+    setIsWorking(false);
+  };
+
+  const updateRow = (row: number, changes: Partial<PreviewRow>) => {
+    setPreviewRows((rows) => rows.map((r) => (r.row === row ? { ...r, ...changes } : r)));
+  };
+
+  const setAllCategories = (category: ExpenseCategory) => {
+    setPreviewRows((rows) => rows.map((r) => (r.include ? { ...r, category } : r)));
+  };
+
+  const selectedRows = useMemo(() => previewRows.filter((r) => r.include), [previewRows]);
+
+  const handleImport = async () => {
+    if (!user || selectedRows.length === 0) return;
+    setIsWorking(true);
+
+    const expensesColRef = collection(db, 'users', user.uid, 'expenses');
+    let imported = 0;
+    let failed = 0;
+
+    // Each batch commits on its own, so one bad batch doesn't lose the rest.
+    for (let i = 0; i < selectedRows.length; i += BATCH_SIZE) {
+      const chunk = selectedRows.slice(i, i + BATCH_SIZE);
+      const batch = writeBatch(db);
+      const newExpenses = chunk.map((r) => ({
+        name: r.description,
+        amount: r.amount,
+        currency,
+        category: r.category,
+        subcategoryId: null,
+        // Statements carry no time, so stamp midday to keep the day stable across time zones.
+        date: Timestamp.fromDate(setHours(r.date, 12)),
+        createdAt: serverTimestamp(),
+      }));
+      newExpenses.forEach((expense) => batch.set(doc(expensesColRef), expense));
+
+      try {
+        await batch.commit();
+        imported += chunk.length;
+        // Drop the saved rows so retrying only sends the batches that failed.
+        const savedRows = new Set(chunk.map((r) => r.row));
+        setPreviewRows((rows) => rows.filter((r) => !savedRows.has(r.row)));
+      } catch (serverError) {
+        failed += chunk.length;
+        const permissionError = new FirestorePermissionError({
+          path: expensesColRef.path,
+          operation: 'create',
+          requestResourceData: { rows: chunk.map((r) => r.row), expenses: newExpenses },
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      }
+    }
+
+    setIsWorking(false);
+    toast({
+      variant: failed > 0 ? 'destructive' : 'default',
+      title: failed > 0 ? 'Import Partially Failed' : 'Import Complete',
+      description: failed > 0
+        ? `${imported} expenses imported, ${failed} could not be saved. Import again to retry them.`
+        : `${imported} expenses imported from ${fileName}.`,
+    });
+    if (failed === 0) handleOpenChange(false);
+  };
+
+  const columnSelect = (key: 'date' | 'description' | 'amount' | 'credit', label: string, optional = false) => (
+    <div className="space-y-2">
+      <Label>{label}</Label>
+      <Select
+        value={mapping[key] === undefined ? NO_COLUMN : String(mapping[key])}
+        onValueChange={(value) => setMapping((m) => ({ ...m, [key]: value === NO_COLUMN ? undefined : Number(value) }))}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Select a column" />
+        </SelectTrigger>
+        <SelectContent>
+          {optional && <SelectItem value={NO_COLUMN}>None</SelectItem>}
+          {header.map((column, index) => (
+            <SelectItem key={index} value={String(index)}>
+              {column || `Column ${index + 1}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Bank Statement</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV export from your bank.'}
+            {step === 'map' && `Tell us which columns in ${fileName} hold each field.`}
+            {step === 'preview' && 'Review the transactions and pick a category for each before importing.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <label className="flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed border-white/20 p-10 cursor-pointer hover:border-primary">
+            <FileUp className="h-8 w-8 text-muted-foreground" />
+            <span className="text-sm text-muted-foreground">Click to choose a .csv file</span>
+            <Input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFile(file);
+              }}
+            />
+          </label>
+        )}
+
+        {step === 'map' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {columnSelect('date', 'Date column')}
+              {columnSelect('description', 'Description column')}
+              {columnSelect('amount', mapping.signConvention === 'separate-columns' ? 'Debit column' : 'Amount column')}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Date format</Label>
+                <Select value={mapping.dateFormat} onValueChange={(value) => setMapping((m) => ({ ...m, dateFormat: value as CsvDateFormat }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CSV_DATE_FORMATS.map((dateFormat) => (
+                      <SelectItem key={dateFormat} value={dateFormat}>{dateFormat}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Debits are</Label>
+                <Select value={mapping.signConvention} onValueChange={(value) => setMapping((m) => ({ ...m, signConvention: value as CsvSignConvention }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="negative-is-debit">Negative amounts</SelectItem>
+                    <SelectItem value="positive-is-debit">Positive amounts</SelectItem>
+                    <SelectItem value="separate-columns">In their own column</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {mapping.signConvention === 'separate-columns' && columnSelect('credit', 'Credit column')}
+            </div>
+            <div className="rounded-md border border-white/10 p-3 text-xs text-muted-foreground">
+              <p className="font-medium text-foreground mb-1">First rows</p>
+              {dataRows.slice(0, 3).map((cells, index) => (
+                <p key={index} className="truncate font-mono">{cells.join(' | ')}</p>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {step === 'preview' && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+              <span className="text-muted-foreground">
+                {selectedRows.length} of {previewRows.length} selected
+                {skippedCredits > 0 && ` · ${skippedCredits} credits skipped`}
+              </span>
+              <div className="flex items-center gap-2">
+                <span className="text-muted-foreground">Set selected to</span>
+                {(['Needs', 'Wants', 'Savings'] as ExpenseCategory[]).map((category) => (
+                  <Button key={category} variant="outline" size="sm" onClick={() => setAllCategories(category)}>
+                    {category}
+                  </Button>
+                ))}
+              </div>
+            </div>
+            {issues.length > 0 && (
+              <div className="flex items-start gap-2 rounded-md border border-destructive/50 p-3 text-xs text-destructive">
+                <AlertTriangle className="h-4 w-4 shrink-0" />
+                <div>
+                  {issues.length} rows could not be read and will be skipped.
+                  {issues.slice(0, 3).map((issue) => (
+                    <p key={issue.row}>Row {issue.row}: {issue.message}</p>
+                  ))}
+                </div>
+              </div>
+            )}
+            <ScrollArea className="h-[350px]">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[40px]" />
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead className="w-[130px]">Category</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previewRows.map((r) => (
+                    <TableRow key={r.row} className={r.include ? undefined : 'opacity-50'}>
+                      <TableCell>
+                        <Checkbox checked={r.include} onCheckedChange={(checked) => updateRow(r.row, { include: checked === true })} />
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{format(r.date, 'MMM d, yyyy')}</TableCell>
+                      <TableCell>
+                        <span>{r.description}</span>
+                        {r.duplicate && <Badge variant="secondary" className="ml-2">Possible duplicate</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(r.amount, currency)}</TableCell>
+                      <TableCell>
+                        <Select value={r.category} onValueChange={(value) => updateRow(r.row, { category: value as ExpenseCategory })}>
+                          <SelectTrigger className="h-8">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="Needs">Needs</SelectItem>
+                            <SelectItem value="Wants">Wants</SelectItem>
+                            <SelectItem value="Savings">Savings</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step !== 'upload' && (
+            <Button variant="outline" onClick={() => setStep(step === 'preview' ? 'map' : 'upload')} disabled={isWorking}>
+              Back
+            </Button>
+          )}
+          {step === 'map' && (
+            <Button onClick={handleBuildPreview} disabled={!isMappingComplete || isWorking}>
+              {isWorking ? 'Checking...' : 'Preview'}
+            </Button>
+          )}
+          {step === 'preview' && (
+            <Button onClick={handleImport} disabled={selectedRows.length === 0 || isWorking}>
+              {isWorking ? 'Importing...' : `Import ${selectedRows.length} Expenses`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,15 +1,16 @@
 'use client';
 
 import { useEffect, useState, useMemo } from 'react';
-import { collection, query, orderBy, onSnapshot } from 'firebase/firestore';
+import Link from 'next/link';
+import { collection, query, orderBy, onSnapshot, where, Timestamp } from 'firebase/firestore';
 import { useAuth } from '@/firebase/auth-provider';
 import { useFirestore, useFirebaseAuth } from '@/firebase/provider';
-import type { Expense } from '@/lib/types';
+import type { BudgetPeriod, Expense } from '@/lib/types';
 import { Skeleton } from '@/components/ui/skeleton';
 import { BudgetCategoryCard } from './budget-category-card';
 import { AddExpenseForm } from './add-expense-form';
 import { ExpenseList } from './expense-list';
-import { Home, Sparkles, PiggyBank, DollarSign, CreditCard, WalletCards, BadgePercent, LayoutGrid, List, Bot } from 'lucide-react';
+import { Home, Sparkles, PiggyBank, DollarSign, CreditCard, WalletCards, BadgePercent, LayoutGrid, List, Bot, TrendingUp } from 'lucide-react';
 import { ExpenseBreakdownChart } from './expense-breakdown-chart';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { errorEmitter } from '@/firebase/error-emitter';
@@ -17,17 +18,115 @@ import { FirestorePermissionError } from '@/firebase/errors';
 import { AIAdvisorCard } from './ai-advisor-card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { SetIncomeCard } from './set-income-card';
-import { formatCurrency } from '@/lib/currency';
+import { useFormatCurrency } from '@/hooks/use-format-currency';
+import { getBudgetPeriod } from '@/lib/budget-period';
+import { resolveAllocation } from '@/lib/allocation';
+import { getBudgetSummary } from '@/lib/budget';
+import { PeriodPicker } from './period-picker';
+import { useSubcategories } from '@/hooks/use-subcategories';
+import { isTrashed } from '@/lib/trash';
+import { backfillAmountCurrencies, backfillExpenseCurrencies, backfillExpenseDates, migrateLegacyIncome } from '@/firebase/migrations';
+import { useRecurringExpenses } from '@/hooks/use-recurring-expenses';
+import { getClientClock } from '@/lib/client-clock';
+import { UpcomingBillsCard } from './upcoming-bills-card';
+import { useIncomes } from '@/hooks/use-incomes';
+import { getPeriodIncome } from '@/lib/income';
+import { IncomeList } from './income-list';
+import { useSavingsGoals } from '@/hooks/use-savings-goals';
+import { useGoalContributions } from '@/hooks/use-goal-contributions';
+import { SavingsGoalsCard } from './savings-goals-card';
+import { toBaseGoals } from '@/lib/goals';
+import { SpendingTrends } from './spending-trends';
+import { toBaseCurrency } from '@/lib/exchange-rates';
+import { resolveAlertThresholds } from '@/lib/alerts';
+import { useBudgetAlerts } from '@/hooks/use-budget-alerts';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 
 
 export function DashboardContainer() {
+  const formatCurrency = useFormatCurrency();
   const { user, userData, loading } = useAuth();
   const db = useFirestore();
   const auth = useFirebaseAuth();
   const [expenses, setExpenses] = useState<Expense[]>([]);
   const [expensesLoading, setExpensesLoading] = useState(true);
+  // The period `expenses` were loaded for; it lags `period` until the new snapshot arrives.
+  const [expensesPeriod, setExpensesPeriod] = useState<BudgetPeriod | null>(null);
+  const { subcategories } = useSubcategories();
+  const { recurringExpenses } = useRecurringExpenses();
+  const { incomes, loading: incomesLoading } = useIncomes();
+  const { savingsGoals } = useSavingsGoals();
+  const { contributions } = useGoalContributions();
   const currency = userData?.currency || 'USD';
+  const periodStartDay = userData?.periodStartDay;
+  const [period, setPeriod] = useState<BudgetPeriod>(() => getBudgetPeriod(new Date(), periodStartDay));
+
+  // Jump back to the current period whenever the user changes their start day.
+  useEffect(() => {
+    setPeriod(getBudgetPeriod(new Date(), periodStartDay));
+  }, [periodStartDay]);
   
+  // Older accounts have expenses without a transaction date; copy it over once.
+  const needsDateBackfill = !!userData && !userData.expenseDatesBackfilled;
+  useEffect(() => {
+    if (!user || !needsDateBackfill) return;
+    backfillExpenseDates(db, user.uid).catch((error) => {
+      console.error('Error backfilling expense dates:', error);
+    });
+  }, [user, db, needsDateBackfill]);
+
+  // Expenses now carry their own currency; stamp the current one on older expenses.
+  const needsCurrencyBackfill = !!userData && !userData.expenseCurrenciesBackfilled;
+  useEffect(() => {
+    if (!user || !needsCurrencyBackfill) return;
+    backfillExpenseCurrencies(db, user.uid, currency).catch((error) => {
+      console.error('Error backfilling expense currencies:', error);
+    });
+  }, [user, db, needsCurrencyBackfill, currency]);
+
+  // And on older incomes, savings goals and recurring expenses.
+  const needsAmountCurrencyBackfill = !!userData && !userData.amountCurrenciesBackfilled;
+  useEffect(() => {
+    if (!user || !needsAmountCurrencyBackfill) return;
+    backfillAmountCurrencies(db, user.uid, currency).catch((error) => {
+      console.error('Error backfilling income, goal and recurring expense currencies:', error);
+    });
+  }, [user, db, needsAmountCurrencyBackfill, currency]);
+
+  // Likewise, move the old single income field into the incomes subcollection.
+  const legacyIncome = userData && !userData.incomesMigrated ? userData.income || 0 : null;
+  useEffect(() => {
+    if (!user || legacyIncome === null) return;
+    migrateLegacyIncome(db, user.uid, legacyIncome, currency).catch((error) => {
+      console.error('Error migrating legacy income:', error);
+    });
+  }, [user, db, legacyIncome, currency]);
+
+  // Add any recurring expenses that have fallen due since the last visit.
+  useEffect(() => {
+    if (!user) return;
+
+    const materializeRecurringExpenses = async () => {
+      const token = await user.getIdToken();
+      const response = await fetch('/api/recurring-expenses', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify(getClientClock()),
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        console.warn('Could not add due recurring expenses:', errorData.error || response.status);
+      }
+    };
+
+    materializeRecurringExpenses().catch((error) => {
+      console.warn('Could not add due recurring expenses:', error);
+    });
+  }, [user]);
+
   useEffect(() => {
     if (!user) {
       setExpensesLoading(false);
@@ -35,11 +134,18 @@ export function DashboardContainer() {
     }
 
     const expensesColRef = collection(db, 'users', user.uid, 'expenses');
-    const expensesQuery = query(expensesColRef, orderBy('createdAt', 'desc'));
+    const expensesQuery = query(
+      expensesColRef,
+      where('date', '>=', Timestamp.fromDate(period.start)),
+      where('date', '<', Timestamp.fromDate(period.end)),
+      orderBy('date', 'desc')
+    );
 
     const unsubscribeExpenses = onSnapshot(expensesQuery, (snapshot) => {
       const expensesData = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as Expense[];
-      setExpenses(expensesData);
+      // Trashed expenses are filtered here because Firestore can't match a missing `deletedAt`.
+      setExpenses(expensesData.filter(expense => !isTrashed(expense)));
+      setExpensesPeriod(period);
       setExpensesLoading(false);
     }, (error) => {
         // Only emit an error if a user is still logged in.
@@ -57,24 +163,51 @@ export function DashboardContainer() {
     return () => {
       unsubscribeExpenses();
     };
-  }, [user, db, auth]);
+  }, [user, db, auth, period]);
 
-  const { needsTotal, wantsTotal, savingsTotal, needsSpent, wantsSpent, savingsSpent, totalSpent } = useMemo(() => {
-    const income = userData?.income || 0;
-    const needsTotal = income * 0.5;
-    const wantsTotal = income * 0.3;
-    const savingsTotal = income * 0.2;
+  const allocation = useMemo(() => resolveAllocation(userData?.allocation), [userData?.allocation]);
 
-    const needsSpent = expenses.filter(e => e.category === 'Needs').reduce((acc, e) => acc + e.amount, 0);
-    const wantsSpent = expenses.filter(e => e.category === 'Wants').reduce((acc, e) => acc + e.amount, 0);
-    const savingsSpent = expenses.filter(e => e.category === 'Savings').reduce((acc, e) => acc + e.amount, 0);
-    const totalSpent = needsSpent + wantsSpent + savingsSpent;
+  // Totals, charts and the advisor all work in the base currency.
+  const { items: baseExpenses, missingRates: expenseMissingRates } = useMemo(
+    () => toBaseCurrency(expenses, currency, userData?.exchangeRates),
+    [expenses, currency, userData?.exchangeRates]
+  );
+  const { items: baseIncomes, missingRates: incomeMissingRates } = useMemo(
+    () => toBaseCurrency(incomes, currency, userData?.exchangeRates),
+    [incomes, currency, userData?.exchangeRates]
+  );
+  const missingRates = useMemo(
+    () => Array.from(new Set([...expenseMissingRates, ...incomeMissingRates])),
+    [expenseMissingRates, incomeMissingRates]
+  );
+  // Goal progress spans every period, so contributions are loaded separately.
+  const baseContributions = useMemo(
+    () => toBaseCurrency(contributions, currency, userData?.exchangeRates).items,
+    [contributions, currency, userData?.exchangeRates]
+  );
+  const baseSavingsGoals = useMemo(
+    () => toBaseGoals(savingsGoals, currency, userData?.exchangeRates).goals,
+    [savingsGoals, currency, userData?.exchangeRates]
+  );
+  const periodIncome = useMemo(() => getPeriodIncome(baseIncomes, period), [baseIncomes, period]);
+  const summary = useMemo(
+    () => getBudgetSummary(periodIncome, allocation, baseExpenses),
+    [periodIncome, allocation, baseExpenses]
+  );
 
-    return { needsTotal, wantsTotal, savingsTotal, needsSpent, wantsSpent, savingsSpent, totalSpent };
-  }, [userData, expenses]);
+  // Alerts only fire for the current period; browsing history shouldn't raise old ones.
+  const alertThresholds = useMemo(() => resolveAlertThresholds(userData?.alertThresholds), [userData?.alertThresholds]);
+  const isCurrentPeriod = period.start.getTime() === getBudgetPeriod(new Date(), periodStartDay).start.getTime();
+  useBudgetAlerts({
+    summary,
+    period,
+    thresholds: alertThresholds,
+    currency,
+    enabled: isCurrentPeriod && expensesPeriod === period && !loading && !incomesLoading,
+  });
 
   // Show skeleton loader while auth or expenses are loading to prevent flicker
-  if (loading || expensesLoading) {
+  if (loading || expensesLoading || incomesLoading) {
     return (
       <div className="container mx-auto p-4 md:p-8 space-y-8">
         <div className="flex justify-between items-center">
@@ -100,26 +233,27 @@ export function DashboardContainer() {
     );
   }
   
-  // After loading, if there's no user data or no income, show the income setup card.
-  if (!userData || userData.income === 0) {
+  // After loading, if there's no user data or no income yet, show the income setup card.
+  // Legacy accounts still waiting on their income migration skip it.
+  if (!userData || (incomes.length === 0 && !legacyIncome)) {
     return <SetIncomeCard />;
   }
 
-  const income = userData.income;
-  const remainingIncome = income - totalSpent;
-  const savingsRate = income > 0 ? (savingsSpent / income) * 100 : 0;
+  const income = periodIncome;
+  const { categories, totalSpent, balance: remainingIncome, savingsRate } = summary;
 
   return (
     <div className="container mx-auto p-4 md:p-8 space-y-8">
-      <div className="flex justify-between items-center">
+      <div className="flex flex-wrap gap-4 justify-between items-center">
         <div>
           <h1 className="text-4xl font-bold tracking-tighter">Dashboard</h1>
           <p className="text-muted-foreground">Welcome back, {userData?.displayName || user?.email}!</p>
         </div>
+        <PeriodPicker period={period} onPeriodChange={setPeriod} />
       </div>
       
        <Tabs defaultValue="overview" className="space-y-8">
-        <TabsList className="grid w-full grid-cols-3 glassmorphism p-2 h-auto">
+        <TabsList className="grid w-full grid-cols-4 glassmorphism p-2 h-auto">
           <TabsTrigger value="overview" className="gap-2">
             <LayoutGrid className="h-4 w-4" />
             Overview
@@ -128,6 +262,10 @@ export function DashboardContainer() {
             <List className="h-4 w-4" />
             Expenses
           </TabsTrigger>
+          <TabsTrigger value="trends" className="gap-2">
+            <TrendingUp className="h-4 w-4" />
+            Trends
+          </TabsTrigger>
           <TabsTrigger value="advisor" className="gap-2">
             <Bot className="h-4 w-4" />
             AI Advisor
@@ -135,6 +273,15 @@ export function DashboardContainer() {
         </TabsList>
 
         <TabsContent value="overview" className="space-y-8">
+          {missingRates.length > 0 && (
+            <Alert className="glassmorphism">
+              <AlertTitle>Missing exchange rates</AlertTitle>
+              <AlertDescription>
+                No rate to {currency} for {missingRates.join(', ')}, so those amounts are counted unconverted.
+                Add rates in <Link href="/dashboard/settings" className="underline">Settings</Link>.
+              </AlertDescription>
+            </Alert>
+          )}
           <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
               <Card className="glassmorphism transition-all duration-200 hover:scale-105">
                 <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -178,45 +325,70 @@ export function DashboardContainer() {
               <BudgetCategoryCard
                 title="Needs"
                 icon={<Home className="h-5 w-5 text-chart-1" />}
-                allocated={needsTotal}
-                spent={needsSpent}
+                allocated={categories.Needs.allocated}
+                allocationPercent={allocation.needs}
+                spent={categories.Needs.spent}
                 colorClass="bg-chart-1"
                 currency={currency}
               />
               <BudgetCategoryCard
                 title="Wants"
                 icon={<Sparkles className="h-5 w-5 text-chart-2" />}
-                allocated={wantsTotal}
-                spent={wantsSpent}
+                allocated={categories.Wants.allocated}
+                allocationPercent={allocation.wants}
+                spent={categories.Wants.spent}
                 colorClass="bg-chart-2"
                 currency={currency}
               />
               <BudgetCategoryCard
                 title="Savings"
                 icon={<PiggyBank className="h-5 w-5 text-chart-3" />}
-                allocated={savingsTotal}
-                spent={savingsSpent}
+                allocated={categories.Savings.allocated}
+                allocationPercent={allocation.savings}
+                spent={categories.Savings.spent}
                 colorClass="bg-chart-3"
                 currency={currency}
               />
             </div>
             
-            <ExpenseBreakdownChart expenses={expenses} currency={currency} />
+            <div className="grid gap-6 lg:grid-cols-2">
+              <ExpenseBreakdownChart expenses={baseExpenses} subcategories={subcategories} currency={currency} />
+              <UpcomingBillsCard recurringExpenses={recurringExpenses} currency={currency} />
+            </div>
+
+            <SavingsGoalsCard goals={baseSavingsGoals} contributions={baseContributions} currency={currency} />
         </TabsContent>
         
         <TabsContent value="expenses" className="space-y-8">
             <div className="grid gap-8 md:grid-cols-5">
               <div className="md:col-span-3">
-                <ExpenseList expenses={expenses} currency={currency} />
+                <ExpenseList
+                  expenses={expenses}
+                  subcategories={subcategories}
+                  goals={savingsGoals}
+                  currency={currency}
+                  exchangeRates={userData.exchangeRates}
+                  period={period}
+                />
               </div>
-              <div className="md:col-span-2">
-                <AddExpenseForm currency={currency} />
+              <div className="md:col-span-2 space-y-8">
+                <AddExpenseForm currency={currency} subcategories={subcategories} goals={savingsGoals} />
+                <IncomeList incomes={incomes} period={period} currency={currency} exchangeRates={userData.exchangeRates} />
               </div>
             </div>
         </TabsContent>
         
+        <TabsContent value="trends">
+            <SpendingTrends
+              period={period}
+              incomes={incomes}
+              currency={currency}
+              exchangeRates={userData.exchangeRates}
+            />
+        </TabsContent>
+
         <TabsContent value="advisor">
-            <AIAdvisorCard expenses={expenses} income={income} />
+            <AIAdvisorCard expenses={baseExpenses} income={income} />
         </TabsContent>
       </Tabs>
     </div>
@@ -0,0 +1,48 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { CalendarIcon } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { cn } from '@/lib/utils';
+
+interface DatePickerProps {
+  value?: Date;
+  onChange: (date: Date | undefined) => void;
+  placeholder?: string;
+  disableFuture?: boolean;
+  className?: string;
+}
+
+export function DatePicker({ value, onChange, placeholder = 'Pick a date', disableFuture = false, className }: DatePickerProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          className={cn('w-full justify-start text-left font-normal', !value && 'text-muted-foreground', className)}
+        >
+          <CalendarIcon className="mr-2 h-4 w-4" />
+          {value ? format(value, 'PPP') : placeholder}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="single"
+          selected={value}
+          defaultMonth={value}
+          onSelect={(date) => {
+            onChange(date);
+            setOpen(false);
+          }}
+          disabled={disableFuture ? { after: new Date() } : undefined}
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,304 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { doc, updateDoc, Timestamp } from 'firebase/firestore';
+import { useFirestore } from '@/firebase/provider';
+import { useAuth } from '@/firebase/auth-provider';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import type { Currency, Expense, SavingsGoal, Subcategory } from '@/lib/types';
+import { getSubcategoryIcon } from '@/lib/subcategories';
+import { getExpenseDate, withTimeOfDay } from '@/lib/expenses';
+import { CURRENCIES } from '@/lib/currency';
+import { getExpenseCurrency } from '@/lib/exchange-rates';
+import { expenseFormSchema, NO_GOAL, NO_SUBCATEGORY, toGoalId, toSubcategoryId, type ExpenseFormValues } from './add-expense-form';
+import { DatePicker } from './date-picker';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { recordCategoryCorrection } from '@/hooks/use-category-suggestion';
+
+interface EditExpenseDialogProps {
+  expense: Expense | null;
+  subcategories: Subcategory[];
+  goals: SavingsGoal[];
+  currency: Currency;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function EditExpenseDialog({ expense, subcategories, goals, currency, onOpenChange }: EditExpenseDialogProps) {
+  const { user } = useAuth();
+  const db = useFirestore();
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const form = useForm<ExpenseFormValues>({
+    resolver: zodResolver(expenseFormSchema),
+    defaultValues: {
+      name: '',
+      amount: undefined,
+      currency,
+      category: 'Needs',
+      subcategoryId: NO_SUBCATEGORY,
+      goalId: NO_GOAL,
+      date: new Date(),
+    },
+  });
+
+  useEffect(() => {
+    if (expense) {
+      form.reset({
+        name: expense.name,
+        amount: expense.amount,
+        currency: getExpenseCurrency(expense, currency),
+        category: expense.category,
+        subcategoryId: expense.subcategoryId || NO_SUBCATEGORY,
+        goalId: expense.goalId || NO_GOAL,
+        date: getExpenseDate(expense),
+      });
+    }
+  }, [expense, currency, form]);
+
+  const selectedCategory = form.watch('category');
+  const availableSubcategories = subcategories.filter((s) => s.parent === selectedCategory);
+
+  async function onSubmit(values: ExpenseFormValues) {
+    if (!user || !expense) return;
+    setIsSaving(true);
+
+    const expenseDocRef = doc(db, 'users', user.uid, 'expenses', expense.id);
+    // Keep the original time of day so the expense holds its place within the day.
+    const originalDate = getExpenseDate(expense);
+    const updatedExpense = {
+      name: values.name,
+      amount: values.amount,
+      currency: values.currency,
+      category: values.category,
+      subcategoryId: toSubcategoryId(values.subcategoryId),
+      goalId: toGoalId(values.goalId, values.category),
+      date: Timestamp.fromDate(withTimeOfDay(values.date, originalDate)),
+    };
+
+    updateDoc(expenseDocRef, updatedExpense)
+      .then(() => {
+        toast({
+          title: 'Expense Updated',
+          description: `${values.name} has been updated.`,
+        });
+        // Re-filing an expense is a correction future suggestions should follow.
+        if (updatedExpense.category !== expense.category || updatedExpense.subcategoryId !== (expense.subcategoryId ?? null)) {
+          recordCategoryCorrection(db, user.uid, values.name, updatedExpense.category, updatedExpense.subcategoryId);
+        }
+        onOpenChange(false);
+      })
+      .catch((serverError) => {
+        const permissionError = new FirestorePermissionError({
+          path: expenseDocRef.path,
+          operation: 'update',
+          requestResourceData: updatedExpense,
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      })
+      .finally(() => {
+        setIsSaving(false);
+      });
+  }
+
+  return (
+    <Dialog open={!!expense} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Edit Expense</DialogTitle>
+          <DialogDescription>Correct the details of this transaction.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Expense Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Groceries" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {CURRENCIES.map((code) => (
+                          <SelectItem key={code} value={code}>{code}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Date</FormLabel>
+                    <FormControl>
+                      <DatePicker value={field.value} onChange={field.onChange} disableFuture />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="category"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Category</FormLabel>
+                  <Select
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      form.setValue('subcategoryId', NO_SUBCATEGORY);
+                    }}
+                    value={field.value}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a category" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="Needs">Needs</SelectItem>
+                      <SelectItem value="Wants">Wants</SelectItem>
+                      <SelectItem value="Savings">Savings</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {availableSubcategories.length > 0 && (
+              <FormField
+                control={form.control}
+                name="subcategoryId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Subcategory</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a subcategory" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_SUBCATEGORY}>None</SelectItem>
+                        {availableSubcategories.map((subcategory) => {
+                          const Icon = getSubcategoryIcon(subcategory.icon);
+                          return (
+                            <SelectItem key={subcategory.id} value={subcategory.id}>
+                              <span className="flex items-center gap-2">
+                                <Icon className="h-4 w-4" style={{ color: subcategory.color }} />
+                                {subcategory.name}
+                              </span>
+                            </SelectItem>
+                          );
+                        })}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            {selectedCategory === 'Savings' && goals.length > 0 && (
+              <FormField
+                control={form.control}
+                name="goalId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Savings Goal</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a goal" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_GOAL}>None</SelectItem>
+                        {goals.map((goal) => (
+                          <SelectItem key={goal.id} value={goal.id}>{goal.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Save Changes'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,198 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { doc, serverTimestamp, updateDoc } from 'firebase/firestore';
+import { format } from 'date-fns';
+import { useFirestore } from '@/firebase/provider';
+import { useAuth } from '@/firebase/auth-provider';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { useToast } from '@/hooks/use-toast';
+import type { Currency, ExchangeRateTable } from '@/lib/types';
+import { CURRENCIES, getCurrencyLabel } from '@/lib/currency';
+import { useFormatCurrency } from '@/hooks/use-format-currency';
+import { getExchangeRate, parseExchangeRatesFile } from '@/lib/exchange-rates';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { FileUp, X } from 'lucide-react';
+
+type RateInputs = Partial<Record<Currency, string>>;
+
+// Shows every stored rate as "1 <base> = x <currency>", whatever base the table uses.
+function toRateInputs(table: ExchangeRateTable | undefined, baseCurrency: Currency): RateInputs {
+  if (!table) return {};
+  const codes = [table.base, ...(Object.keys(table.rates) as Currency[])].filter((code) => code !== baseCurrency);
+  return Object.fromEntries(
+    codes.map((code) => {
+      const rate = getExchangeRate(table, baseCurrency, code);
+      return [code, rate === null ? '' : String(Number(rate.toFixed(6)))];
+    })
+  );
+}
+
+export function ExchangeRateManager() {
+  const { user, userData } = useAuth();
+  const db = useFirestore();
+  const { toast } = useToast();
+  const baseCurrency = userData?.currency || 'USD';
+  const exchangeRates = userData?.exchangeRates;
+  const [inputs, setInputs] = useState<RateInputs>({});
+  const formatCurrency = useFormatCurrency();
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setInputs(toRateInputs(exchangeRates, baseCurrency));
+  }, [exchangeRates, baseCurrency]);
+
+  const saveTable = (table: ExchangeRateTable, successMessage: string) => {
+    if (!user) return;
+    setIsSaving(true);
+
+    const userDocRef = doc(db, 'users', user.uid);
+    // updateDoc replaces the whole map, so rates removed here don't linger.
+    const updatedData = { exchangeRates: { ...table, updatedAt: serverTimestamp() } };
+
+    updateDoc(userDocRef, updatedData)
+      .then(() => {
+        toast({ title: 'Exchange Rates Saved', description: successMessage });
+      })
+      .catch((serverError) => {
+        const permissionError = new FirestorePermissionError({
+          path: userDocRef.path,
+          operation: 'update',
+          requestResourceData: updatedData,
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      })
+      .finally(() => {
+        setIsSaving(false);
+      });
+  };
+
+  const handleSave = () => {
+    const rates: ExchangeRateTable['rates'] = {};
+    for (const [code, value] of Object.entries(inputs) as [Currency, string][]) {
+      if (value.trim() === '') continue;
+      const rate = Number(value);
+      if (!Number.isFinite(rate) || rate <= 0) {
+        toast({ variant: 'destructive', title: 'Invalid Rate', description: `The ${code} rate must be a positive number.` });
+        return;
+      }
+      rates[code] = rate;
+    }
+    saveTable({ base: baseCurrency, rates }, `Rates are now relative to ${baseCurrency}.`);
+  };
+
+  const handleAddCurrency = (code: Currency) => {
+    setInputs((prev) => ({ ...prev, [code]: prev[code] ?? '' }));
+  };
+
+  const handleRemoveCurrency = (code: Currency) => {
+    setInputs((prev) => {
+      const { [code]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const listedCurrencies = Object.keys(inputs) as Currency[];
+  const addableCurrencies = CURRENCIES.filter((code) => code !== baseCurrency && !(code in inputs));
+
+  const handleImport = async (file: File) => {
+    const table = parseExchangeRatesFile(await file.text());
+    if (!table) {
+      toast({
+        variant: 'destructive',
+        title: 'Could Not Read Rates',
+        description: 'Expected a JSON file like { "base": "USD", "rates": { "EUR": 0.92 } }.',
+      });
+      return;
+    }
+    const count = Object.keys(table.rates).length;
+    saveTable(table, `Imported ${count} rate${count === 1 ? '' : 's'} from ${file.name}.`);
+  };
+
+  return (
+    <Card className="glassmorphism">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Exchange Rates</CardTitle>
+          <CardDescription>
+            Used to convert foreign-currency expenses into {baseCurrency} for your totals.
+            {exchangeRates?.updatedAt && ` Last updated ${format(exchangeRates.updatedAt.toDate(), 'MMM d, yyyy')}.`}
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" className="gap-2" asChild>
+          <label className="cursor-pointer">
+            <FileUp className="h-4 w-4" />
+            Import JSON
+            <Input
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {listedCurrencies.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No rates yet. Add a currency or import a rates file.</p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {listedCurrencies.map((code) => (
+              <div key={code} className="space-y-2">
+                <Label htmlFor={`rate-${code}`}>
+                  {formatCurrency(1, baseCurrency)} = ? {code}
+                </Label>
+                <div className="flex gap-2">
+                  <Input
+                    id={`rate-${code}`}
+                    type="number"
+                    step="any"
+                    min={0}
+                    placeholder="Not set"
+                    value={inputs[code] ?? ''}
+                    onChange={(e) => setInputs((prev) => ({ ...prev, [code]: e.target.value }))}
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => handleRemoveCurrency(code)}>
+                    <X className="h-4 w-4" />
+                    <span className="sr-only">Remove {code}</span>
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        <div className="flex flex-wrap gap-2">
+          <Select value="" onValueChange={(value) => handleAddCurrency(value as Currency)}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Add a currency" />
+            </SelectTrigger>
+            <SelectContent className="max-h-80">
+              {addableCurrencies.map((code) => (
+                <SelectItem key={code} value={code}>{getCurrencyLabel(code, userData?.locale)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Rates'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
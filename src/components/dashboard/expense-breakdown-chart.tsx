@@ -3,11 +3,14 @@
 import * as React from 'react';
 import { PieChart, Pie, Cell, Tooltip, Legend } from 'recharts';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { type Expense } from '@/lib/types';
+import { type Expense, type ExpenseCategory, type Subcategory } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { ArrowLeft } from 'lucide-react';
+import { findSubcategory } from '@/lib/subcategories';
 import {
   ChartContainer,
 } from "@/components/ui/chart";
-import { formatCurrency } from '@/lib/currency';
+import { useFormatCurrency } from '@/hooks/use-format-currency';
 
 const chartConfig = {
   Needs: {
@@ -24,9 +27,20 @@ const chartConfig = {
   },
 } satisfies React.ComponentProps<typeof ChartContainer>["config"];
 
+const UNCATEGORIZED_KEY = 'uncategorized';
+const UNCATEGORIZED_COLOR = 'hsl(var(--muted-foreground))';
+
+interface ChartDatum {
+  key: string;
+  label: string;
+  total: number;
+  fill: string;
+}
+
 
 // A simple, professional tooltip to show details on hover.
 const ProfessionalTooltip = ({ active, payload, currency }: any) => {
+  const formatCurrency = useFormatCurrency();
   if (active && payload && payload.length) {
     const data = payload[0];
     return (
@@ -49,28 +63,80 @@ const ProfessionalTooltip = ({ active, payload, currency }: any) => {
 
 interface ExpenseBreakdownChartProps {
   expenses: Expense[];
+  subcategories: Subcategory[];
   currency: string;
 }
 
-export function ExpenseBreakdownChart({ expenses, currency }: ExpenseBreakdownChartProps) {
+export function ExpenseBreakdownChart({ expenses, subcategories, currency }: ExpenseBreakdownChartProps) {
   const [activeIndex, setActiveIndex] = React.useState<number | null>(null);
+  const [drilldown, setDrilldown] = React.useState<ExpenseCategory | null>(null);
 
-  const chartData = React.useMemo(() => {
+  const chartData = React.useMemo<ChartDatum[]>(() => {
     if (!expenses || expenses.length === 0) {
       return [];
     }
 
-    const categoryTotals = expenses.reduce((acc, expense) => {
-      acc[expense.category] = (acc[expense.category] || 0) + expense.amount;
-      return acc;
-    }, {} as { [key: string]: number });
-
-    return Object.entries(categoryTotals).map(([category, total]) => ({
-      category: category as keyof typeof chartConfig,
-      total: total,
-      fill: chartConfig[category as keyof typeof chartConfig].color,
-    }));
-  }, [expenses]);
+    // Top level: one slice per bucket.
+    if (!drilldown) {
+      const categoryTotals = expenses.reduce((acc, expense) => {
+        acc[expense.category] = (acc[expense.category] || 0) + expense.amount;
+        return acc;
+      }, {} as { [key: string]: number });
+
+      return Object.entries(categoryTotals).map(([category, total]) => ({
+        key: category,
+        label: chartConfig[category as keyof typeof chartConfig].label,
+        total: total,
+        fill: chartConfig[category as keyof typeof chartConfig].color,
+      }));
+    }
+
+    // Drilled in: one slice per subcategory of the selected bucket.
+    const subcategoryTotals = new Map<string, ChartDatum>();
+    expenses
+      .filter((expense) => expense.category === drilldown)
+      .forEach((expense) => {
+        const subcategory = findSubcategory(subcategories, expense.subcategoryId);
+        const key = subcategory?.id || UNCATEGORIZED_KEY;
+        const existing = subcategoryTotals.get(key);
+        if (existing) {
+          existing.total += expense.amount;
+        } else {
+          subcategoryTotals.set(key, {
+            key,
+            label: subcategory?.name || 'Uncategorized',
+            total: expense.amount,
+            fill: subcategory?.color || UNCATEGORIZED_COLOR,
+          });
+        }
+      });
+
+    return Array.from(subcategoryTotals.values()).sort((a, b) => b.total - a.total);
+  }, [expenses, subcategories, drilldown]);
+
+  const activeConfig = React.useMemo(() => {
+    if (!drilldown) return chartConfig;
+    return Object.fromEntries(
+      chartData.map((entry) => [entry.key, { label: entry.label, color: entry.fill }])
+    ) satisfies React.ComponentProps<typeof ChartContainer>["config"];
+  }, [chartData, drilldown]);
+
+  const handleDrilldown = React.useCallback(
+    (category: ExpenseCategory | null) => {
+      setActiveIndex(null);
+      setDrilldown(category);
+    },
+    []
+  );
+
+  const onPieClick = React.useCallback(
+    (entry: ChartDatum) => {
+      if (!drilldown) {
+        handleDrilldown(entry.key as ExpenseCategory);
+      }
+    },
+    [drilldown, handleDrilldown]
+  );
   
   const onPieEnter = React.useCallback(
     (_: any, index: number) => {
@@ -88,14 +154,26 @@ export function ExpenseBreakdownChart({ expenses, currency }: ExpenseBreakdownCh
 
   return (
     <Card className="glassmorphism">
-      <CardHeader>
-        <CardTitle>Expense Breakdown</CardTitle>
-        <CardDescription>A simple and professional view of your spending.</CardDescription>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>{drilldown ? `${drilldown} Breakdown` : 'Expense Breakdown'}</CardTitle>
+          <CardDescription>
+            {drilldown
+              ? `Where your ${drilldown.toLowerCase()} spending went, by subcategory.`
+              : 'A simple and professional view of your spending. Click a category to drill in.'}
+          </CardDescription>
+        </div>
+        {drilldown && (
+          <Button variant="ghost" size="sm" onClick={() => handleDrilldown(null)} className="gap-2">
+            <ArrowLeft className="h-4 w-4" />
+            All categories
+          </Button>
+        )}
       </CardHeader>
       <CardContent className="flex-1 pb-4">
         {chartData.length > 0 ? (
           <ChartContainer
-            config={chartConfig}
+            config={activeConfig}
             className="mx-auto aspect-square max-h-[300px]"
           >
             <PieChart>
@@ -106,11 +184,13 @@ export function ExpenseBreakdownChart({ expenses, currency }: ExpenseBreakdownCh
               <Pie
                 data={chartData}
                 dataKey="total"
-                nameKey="category"
+                nameKey="label"
                 innerRadius={70}
                 outerRadius={90}
                 onMouseEnter={onPieEnter}
                 onMouseLeave={onPieLeave}
+                onClick={onPieClick}
+                className={drilldown ? undefined : 'cursor-pointer'}
               >
                  {chartData.map((entry, index) => (
                   <Cell 
@@ -124,12 +204,13 @@ export function ExpenseBreakdownChart({ expenses, currency }: ExpenseBreakdownCh
               </Pie>
               <Legend
                 content={({ payload }) => (
-                  <div className="flex items-center justify-center gap-4 pt-4 text-sm">
+                  <div className="flex flex-wrap items-center justify-center gap-4 pt-4 text-sm">
                     {payload?.map((entry, index) => (
                       <div
                         key={`item-${index}`}
                         onMouseEnter={() => onPieEnter(entry, index)}
                         onMouseLeave={onPieLeave}
+                        onClick={() => chartData[index] && onPieClick(chartData[index])}
                         className="flex items-center gap-1.5 cursor-pointer"
                       >
                         <span
@@ -151,7 +232,9 @@ export function ExpenseBreakdownChart({ expenses, currency }: ExpenseBreakdownCh
           </ChartContainer>
         ) : (
           <div className="flex h-[290px] w-full items-center justify-center">
-            <p className="text-muted-foreground">No expense data to display.</p>
+            <p className="text-muted-foreground">
+              {drilldown ? `No ${drilldown.toLowerCase()} expenses in this period.` : 'No expense data to display.'}
+            </p>
           </div>
         )}
       </CardContent>
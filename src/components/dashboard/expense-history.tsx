@@ -0,0 +1,366 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import {
+  collection,
+  FirestoreError,
+  getDocs,
+  limit,
+  orderBy,
+  query,
+  startAfter,
+  Timestamp,
+  where,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+} from 'firebase/firestore';
+import { addDays } from 'date-fns';
+import { useAuth } from '@/firebase/auth-provider';
+import { useFirestore, useFirebaseAuth } from '@/firebase/provider';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { useSubcategories } from '@/hooks/use-subcategories';
+import type { Expense, ExpenseCategory } from '@/lib/types';
+import { useFormatCurrency } from '@/hooks/use-format-currency';
+import { useToast } from '@/hooks/use-toast';
+import { findSubcategory, getSubcategoryIcon } from '@/lib/subcategories';
+import { isTrashed } from '@/lib/trash';
+import { getExpenseDate } from '@/lib/expenses';
+import { getExpenseCurrency } from '@/lib/exchange-rates';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowDown, ArrowLeft, ArrowUp, ArrowUpDown, Search } from 'lucide-react';
+
+const PAGE_SIZE = 25;
+
+type SortField = 'date' | 'name' | 'amount';
+type SortDirection = 'asc' | 'desc';
+
+interface HistoryFilters {
+  search: string;
+  category: ExpenseCategory | 'all';
+  minAmount: string;
+  maxAmount: string;
+  from: string;
+  to: string;
+}
+
+const DEFAULT_FILTERS: HistoryFilters = {
+  search: '',
+  category: 'all',
+  minAmount: '',
+  maxAmount: '',
+  from: '',
+  to: '',
+};
+
+// Parses a yyyy-MM-dd input value as a local date.
+function parseDateInput(value: string) {
+  if (!value) return null;
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+export function ExpenseHistory() {
+  const formatCurrency = useFormatCurrency();
+  const { user, userData } = useAuth();
+  const db = useFirestore();
+  const auth = useFirebaseAuth();
+  const { toast } = useToast();
+  const { subcategories } = useSubcategories();
+  const currency = userData?.currency || 'USD';
+
+  const [filters, setFilters] = useState<HistoryFilters>(DEFAULT_FILTERS);
+  const [sortField, setSortField] = useState<SortField>('date');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [cursor, setCursor] = useState<QueryDocumentSnapshot | null>(null);
+  const [hasMore, setHasMore] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Bumped by every fetch, so a page that arrives after the filters changed is dropped.
+  const latestRequestRef = useRef(0);
+
+  // Only the date ordering and date range run in Firestore; everything else filters loaded pages.
+  // Adding the category would need composite indexes this project doesn't declare.
+  const dateDirection: SortDirection = sortField === 'date' ? sortDirection : 'desc';
+
+  // Resolves to false when a newer fetch superseded this one.
+  const fetchPage = useCallback(async (after: QueryDocumentSnapshot | null) => {
+    if (!user) return true;
+    const requestId = ++latestRequestRef.current;
+    const isLatest = () => requestId === latestRequestRef.current;
+
+    const expensesColRef = collection(db, 'users', user.uid, 'expenses');
+    const constraints: QueryConstraint[] = [];
+    const from = parseDateInput(filters.from);
+    const to = parseDateInput(filters.to);
+    if (from) constraints.push(where('date', '>=', Timestamp.fromDate(from)));
+    if (to) constraints.push(where('date', '<', Timestamp.fromDate(addDays(to, 1))));
+    constraints.push(orderBy('date', dateDirection));
+    if (after) constraints.push(startAfter(after));
+    constraints.push(limit(PAGE_SIZE));
+
+    try {
+      const snapshot = await getDocs(query(expensesColRef, ...constraints));
+      if (!isLatest()) return false;
+      const page = snapshot.docs
+        .map(doc => ({ id: doc.id, ...doc.data() }) as Expense)
+        .filter(expense => !isTrashed(expense));
+      setExpenses(prev => (after ? [...prev, ...page] : page));
+      setCursor(snapshot.docs[snapshot.docs.length - 1] ?? after);
+      setHasMore(snapshot.docs.length === PAGE_SIZE);
+    } catch (error) {
+      if (!isLatest()) return false;
+      if (!(error instanceof FirestoreError) || error.code !== 'permission-denied') {
+        console.error('Error loading expense history:', error);
+        toast({ variant: 'destructive', title: 'Error', description: 'Could not load your expenses. Please try again.' });
+      } else if (auth.currentUser) {
+        const permissionError = new FirestorePermissionError({
+          path: expensesColRef.path,
+          operation: 'list',
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      }
+      setHasMore(false);
+    }
+    return true;
+  }, [user, db, auth, toast, filters.from, filters.to, dateDirection]);
+
+  useEffect(() => {
+    setLoading(true);
+    setLoadingMore(false);
+    setCursor(null);
+    fetchPage(null).then((isLatest) => {
+      if (isLatest) setLoading(false);
+    });
+  }, [fetchPage]);
+
+  const handleLoadMore = () => {
+    setLoadingMore(true);
+    fetchPage(cursor).then((isLatest) => {
+      if (isLatest) setLoadingMore(false);
+    });
+  };
+
+  const handleSort = (field: SortField) => {
+    if (field === sortField) {
+      setSortDirection(direction => (direction === 'asc' ? 'desc' : 'asc'));
+    } else {
+      setSortField(field);
+      setSortDirection(field === 'name' ? 'asc' : 'desc');
+    }
+  };
+
+  const updateFilter = <K extends keyof HistoryFilters>(key: K, value: HistoryFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const hasActiveFilters = (Object.keys(DEFAULT_FILTERS) as (keyof HistoryFilters)[]).some(
+    key => filters[key] !== DEFAULT_FILTERS[key]
+  );
+
+  const visibleExpenses = useMemo(() => {
+    const search = filters.search.trim().toLowerCase();
+    const minAmount = filters.minAmount === '' ? null : Number(filters.minAmount);
+    const maxAmount = filters.maxAmount === '' ? null : Number(filters.maxAmount);
+
+    const filtered = expenses.filter(expense => {
+      if (search && !expense.name.toLowerCase().includes(search)) return false;
+      if (filters.category !== 'all' && expense.category !== filters.category) return false;
+      if (minAmount !== null && expense.amount < minAmount) return false;
+      if (maxAmount !== null && expense.amount > maxAmount) return false;
+      return true;
+    });
+
+    if (sortField === 'date') return filtered;
+
+    const direction = sortDirection === 'asc' ? 1 : -1;
+    return [...filtered].sort((a, b) =>
+      sortField === 'name'
+        ? a.name.localeCompare(b.name) * direction
+        : (a.amount - b.amount) * direction
+    );
+  }, [expenses, filters.search, filters.category, filters.minAmount, filters.maxAmount, sortField, sortDirection]);
+
+  const formatDate = (expense: Expense) => {
+    return getExpenseDate(expense).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const SortIcon = ({ field }: { field: SortField }) => {
+    if (field !== sortField) return <ArrowUpDown className="h-3.5 w-3.5" />;
+    return sortDirection === 'asc' ? <ArrowUp className="h-3.5 w-3.5" /> : <ArrowDown className="h-3.5 w-3.5" />;
+  };
+
+  return (
+    <div className="container mx-auto p-4 md:p-8 space-y-8">
+      <Link href="/dashboard" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+        <ArrowLeft className="h-4 w-4" />
+        Back to Dashboard
+      </Link>
+      <Card className="glassmorphism">
+        <CardHeader>
+          <CardTitle>Expense History</CardTitle>
+          <CardDescription>Search and filter every transaction you have recorded.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-6">
+            <div className="space-y-2 lg:col-span-2">
+              <Label htmlFor="history-search">Search</Label>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  id="history-search"
+                  placeholder="Search by name"
+                  className="pl-9"
+                  value={filters.search}
+                  onChange={(e) => updateFilter('search', e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={filters.category} onValueChange={(value) => updateFilter('category', value as HistoryFilters['category'])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All categories</SelectItem>
+                  <SelectItem value="Needs">Needs</SelectItem>
+                  <SelectItem value="Wants">Wants</SelectItem>
+                  <SelectItem value="Savings">Savings</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Amount ({currency})</Label>
+              <div className="flex gap-2">
+                <Input type="number" step="0.01" placeholder="Min" value={filters.minAmount} onChange={(e) => updateFilter('minAmount', e.target.value)} />
+                <Input type="number" step="0.01" placeholder="Max" value={filters.maxAmount} onChange={(e) => updateFilter('maxAmount', e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-2 lg:col-span-2">
+              <Label>Date range</Label>
+              <div className="flex gap-2">
+                <Input type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} />
+                <Input type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} />
+              </div>
+            </div>
+          </div>
+          {hasActiveFilters && (
+            <Button variant="ghost" size="sm" onClick={() => setFilters(DEFAULT_FILTERS)}>
+              Clear filters
+            </Button>
+          )}
+
+          {loading ? (
+            <div className="space-y-2">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>
+                    <Button variant="ghost" size="sm" className="-ml-3 gap-1" onClick={() => handleSort('name')}>
+                      Expense <SortIcon field="name" />
+                    </Button>
+                  </TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">
+                    <Button variant="ghost" size="sm" className="-mr-3 gap-1" onClick={() => handleSort('amount')}>
+                      Amount <SortIcon field="amount" />
+                    </Button>
+                  </TableHead>
+                  <TableHead className="text-right">
+                    <Button variant="ghost" size="sm" className="-mr-3 gap-1" onClick={() => handleSort('date')}>
+                      Date <SortIcon field="date" />
+                    </Button>
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {visibleExpenses.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="h-24 text-center">
+                      {expenses.length === 0 ? 'No expenses found.' : 'No loaded expenses match your filters.'}
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  visibleExpenses.map((expense) => {
+                    const subcategory = findSubcategory(subcategories, expense.subcategoryId);
+                    const SubcategoryIcon = subcategory ? getSubcategoryIcon(subcategory.icon) : null;
+                    return (
+                      <TableRow key={expense.id}>
+                        <TableCell className="font-medium">{expense.name}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-wrap gap-1">
+                            <Badge variant={'outline'}>{expense.category}</Badge>
+                            {subcategory && SubcategoryIcon && (
+                              <Badge
+                                variant={'outline'}
+                                className="gap-1"
+                                style={{ borderColor: subcategory.color, color: subcategory.color }}
+                              >
+                                <SubcategoryIcon className="h-3 w-3" />
+                                {subcategory.name}
+                              </Badge>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(expense.amount, getExpenseCurrency(expense, currency))}</TableCell>
+                        <TableCell className="text-right">{formatDate(expense)}</TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          )}
+
+          {!loading && (
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span>
+                Showing {visibleExpenses.length} of {expenses.length} loaded expenses
+                {sortField !== 'date' && ' (sorted within loaded results)'}
+              </span>
+              {hasMore && (
+                <Button variant="outline" onClick={handleLoadMore} disabled={loadingMore}>
+                  {loadingMore ? 'Loading...' : 'Load more'}
+                </Button>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
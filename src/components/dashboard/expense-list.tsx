@@ -1,6 +1,7 @@
 'use client';
 
 import { useState } from 'react';
+import Image from 'next/image';
 import {
   Card,
   CardContent,
@@ -17,9 +18,11 @@ import {
   TableRow,
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
-import type { Expense } from '@/lib/types';
+import type { BudgetPeriod, Currency, ExchangeRateTable, Expense, SavingsGoal, Subcategory } from '@/lib/types';
+import { findSubcategory, getSubcategoryIcon } from '@/lib/subcategories';
 import { Button } from '@/components/ui/button';
-import { Trash2, Home, Sparkles, PiggyBank } from 'lucide-react';
+import { Trash2, Pencil, Home, Sparkles, PiggyBank, ArchiveRestore, History, FileUp, Target, ExternalLink } from 'lucide-react';
+import Link from 'next/link';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -30,17 +33,36 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
 import { useAuth } from '@/firebase/auth-provider';
-import { doc, deleteDoc } from 'firebase/firestore';
+import { doc, updateDoc, serverTimestamp } from 'firebase/firestore';
 import { useFirestore } from '@/firebase/provider';
 import { useToast } from '@/hooks/use-toast';
 import { errorEmitter } from '@/firebase/error-emitter';
 import { FirestorePermissionError } from '@/firebase/errors';
-import { formatCurrency } from '@/lib/currency';
+import { useFormatCurrency } from '@/hooks/use-format-currency';
+import { convertAmount, getExpenseCurrency } from '@/lib/exchange-rates';
+import { EditExpenseDialog } from './edit-expense-dialog';
+import { TrashDialog } from './trash-dialog';
+import { CsvImportDialog } from './csv-import-dialog';
+import { ExportMenu } from './export-menu';
+import { ToastAction } from '@/components/ui/toast';
+import { TRASH_RETENTION_DAYS } from '@/lib/trash';
+import { getExpenseDate } from '@/lib/expenses';
 
 interface ExpenseListProps {
   expenses: Expense[];
-  currency: string;
+  subcategories: Subcategory[];
+  goals: SavingsGoal[];
+  currency: Currency;
+  exchangeRates?: ExchangeRateTable;
+  period: BudgetPeriod;
 }
 
 const categoryDetails = {
@@ -62,18 +84,36 @@ const categoryDetails = {
 };
 
 
-export function ExpenseList({ expenses, currency }: ExpenseListProps) {
+export function ExpenseList({ expenses, subcategories, goals, currency, exchangeRates, period }: ExpenseListProps) {
+  const formatCurrency = useFormatCurrency();
   const { user } = useAuth();
   const db = useFirestore();
   const { toast } = useToast();
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
   const [expenseToDelete, setExpenseToDelete] = useState<Expense | null>(null);
+  const [expenseToEdit, setExpenseToEdit] = useState<Expense | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [receiptToView, setReceiptToView] = useState<Expense | null>(null);
 
-  const formatDate = (timestamp: any) => {
-    if (!timestamp || typeof timestamp.toDate !== 'function') {
-      return 'Just now';
-    }
-    return timestamp.toDate().toLocaleDateString('en-US', {
+  // Foreign-currency expenses show the amount paid with the base-currency equivalent beneath.
+  const formatAmount = (expense: Expense) => {
+    const expenseCurrency = getExpenseCurrency(expense, currency);
+    if (expenseCurrency === currency) return formatCurrency(expense.amount, currency);
+
+    const converted = convertAmount(expense.amount, expenseCurrency, currency, exchangeRates);
+    return (
+      <div>
+        <div>{formatCurrency(expense.amount, expenseCurrency)}</div>
+        <div className="text-xs text-muted-foreground">
+          {converted === null ? 'No exchange rate' : `≈ ${formatCurrency(converted, currency)}`}
+        </div>
+      </div>
+    );
+  };
+
+  const formatDate = (expense: Expense) => {
+    return getExpenseDate(expense).toLocaleDateString('en-US', {
       month: 'short',
       day: 'numeric',
     });
@@ -104,17 +144,26 @@ export function ExpenseList({ expenses, currency }: ExpenseListProps) {
       expenseToDelete.id
     );
 
-    deleteDoc(expenseDocRef)
+    const trashedExpense = expenseToDelete;
+    const trashData = { deletedAt: serverTimestamp() };
+
+    updateDoc(expenseDocRef, trashData)
       .then(() => {
         toast({
-          title: 'Expense Deleted',
-          description: `${expenseToDelete.name} has been removed.`,
+          title: 'Expense Moved to Trash',
+          description: `${trashedExpense.name} has been removed.`,
+          action: (
+            <ToastAction altText="Undo delete" onClick={() => handleUndoDelete(trashedExpense)}>
+              Undo
+            </ToastAction>
+          ),
         });
       })
       .catch((serverError) => {
         const permissionError = new FirestorePermissionError({
           path: expenseDocRef.path,
-          operation: 'delete',
+          operation: 'update',
+          requestResourceData: trashData,
         });
         errorEmitter.emit('permission-error', permissionError);
       })
@@ -124,14 +173,56 @@ export function ExpenseList({ expenses, currency }: ExpenseListProps) {
       });
   };
 
+  const handleUndoDelete = (expense: Expense) => {
+    if (!user) return;
+
+    const expenseDocRef = doc(db, 'users', user.uid, 'expenses', expense.id);
+    const restoreData = { deletedAt: null };
+
+    updateDoc(expenseDocRef, restoreData)
+      .then(() => {
+        toast({
+          title: 'Expense Restored',
+          description: `${expense.name} is back in your records.`,
+        });
+      })
+      .catch((serverError) => {
+        const permissionError = new FirestorePermissionError({
+          path: expenseDocRef.path,
+          operation: 'update',
+          requestResourceData: restoreData,
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      });
+  };
+
   return (
     <>
       <Card className="glassmorphism">
-        <CardHeader>
-          <CardTitle>Recent Expenses</CardTitle>
-          <CardDescription>
-            A list of your most recent transactions.
-          </CardDescription>
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Recent Expenses</CardTitle>
+            <CardDescription>
+              A list of your most recent transactions.
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" className="gap-2" asChild>
+              <Link href="/dashboard/history">
+                <History className="h-4 w-4" />
+                View all
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => setIsImportOpen(true)}>
+              <FileUp className="h-4 w-4" />
+              Import
+            </Button>
+            <ExportMenu expenses={expenses} subcategories={subcategories} currency={currency} period={period} />
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => setIsTrashOpen(true)}>
+              <ArchiveRestore className="h-4 w-4" />
+              Trash
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           <Table>
@@ -157,25 +248,64 @@ export function ExpenseList({ expenses, currency }: ExpenseListProps) {
               ) : (
                 expenses.slice(0, 10).map((expense) => {
                   const details = categoryDetails[expense.category as keyof typeof categoryDetails] || categoryDetails.Wants;
+                  const subcategory = findSubcategory(subcategories, expense.subcategoryId);
+                  const SubcategoryIcon = subcategory ? getSubcategoryIcon(subcategory.icon) : null;
+                  const goal = expense.goalId ? goals.find((g) => g.id === expense.goalId) : undefined;
                   return(
                   <TableRow key={expense.id} className="border-slate-800">
                     <TableCell className="font-medium flex items-center">
                       <span className={details.color}>{details.icon}</span>
                       <span className="ml-2">{expense.name}</span>
+                      {expense.receiptUrl && (
+                        <button
+                          type="button"
+                          className="relative ml-2 h-8 w-8 shrink-0 overflow-hidden rounded border"
+                          onClick={() => setReceiptToView(expense)}
+                        >
+                          <Image src={expense.receiptUrl} alt="" fill sizes="32px" className="object-cover" />
+                          <span className="sr-only">View receipt</span>
+                        </button>
+                      )}
                     </TableCell>
                     <TableCell>
-                      <Badge variant={'outline'}>
-                        {expense.category}
-                      </Badge>
+                      <div className="flex flex-wrap gap-1">
+                        <Badge variant={'outline'}>
+                          {expense.category}
+                        </Badge>
+                        {subcategory && SubcategoryIcon && (
+                          <Badge
+                            variant={'outline'}
+                            className="gap-1"
+                            style={{ borderColor: subcategory.color, color: subcategory.color }}
+                          >
+                            <SubcategoryIcon className="h-3 w-3" />
+                            {subcategory.name}
+                          </Badge>
+                        )}
+                        {goal && (
+                          <Badge variant={'secondary'} className="gap-1">
+                            <Target className="h-3 w-3" />
+                            {goal.name}
+                          </Badge>
+                        )}
+                      </div>
                     </TableCell>
                     <TableCell className="text-right">
-                      {formatCurrency(expense.amount, currency)}
+                      {formatAmount(expense)}
                     </TableCell>
                     <TableCell className="text-right">
-                      {formatDate(expense.createdAt)}
+                      {formatDate(expense)}
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex items-center justify-end">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setExpenseToEdit(expense)}
+                        >
+                          <Pencil className="h-4 w-4" />
+                          <span className="sr-only">Edit expense</span>
+                        </Button>
                         <Button
                           variant="ghost"
                           size="icon"
@@ -201,10 +331,10 @@ export function ExpenseList({ expenses, currency }: ExpenseListProps) {
       >
         <AlertDialogContent>
           <AlertDialogHeader>
-            <AlertDialogTitle>Are you absolutely sure?</AlertDialogTitle>
+            <AlertDialogTitle>Delete this expense?</AlertDialogTitle>
             <AlertDialogDescription>
-              This action cannot be undone. This will permanently delete this
-              expense from your records.
+              The expense will be moved to Trash. You can restore it from there
+              for {TRASH_RETENTION_DAYS} days before it is permanently deleted.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -215,6 +345,49 @@ export function ExpenseList({ expenses, currency }: ExpenseListProps) {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <Dialog
+        open={!!receiptToView}
+        onOpenChange={(open) => {
+          if (!open) setReceiptToView(null);
+        }}
+      >
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Receipt</DialogTitle>
+            <DialogDescription>
+              {receiptToView && `${receiptToView.name} · ${formatDate(receiptToView)}`}
+            </DialogDescription>
+          </DialogHeader>
+          {receiptToView?.receiptUrl && (
+            <div className="space-y-3">
+              <div className="relative h-[60vh] w-full overflow-hidden rounded-md bg-muted">
+                <Image src={receiptToView.receiptUrl} alt={`Receipt for ${receiptToView.name}`} fill sizes="512px" className="object-contain" />
+              </div>
+              <Button variant="outline" size="sm" className="gap-2" asChild>
+                <a href={receiptToView.receiptUrl} target="_blank" rel="noopener noreferrer">
+                  <ExternalLink className="h-4 w-4" />
+                  Open original
+                </a>
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <TrashDialog open={isTrashOpen} onOpenChange={setIsTrashOpen} currency={currency} />
+
+      <CsvImportDialog open={isImportOpen} onOpenChange={setIsImportOpen} currency={currency} />
+
+      <EditExpenseDialog
+        expense={expenseToEdit}
+        subcategories={subcategories}
+        goals={goals}
+        currency={currency}
+        onOpenChange={(open) => {
+          if (!open) setExpenseToEdit(null);
+        }}
+      />
     </>
   );
 }
@@ -0,0 +1,77 @@
+'use client';
+
+import Link from 'next/link';
+import { useToast } from '@/hooks/use-toast';
+import type { BudgetPeriod, Currency, Expense, Subcategory } from '@/lib/types';
+import { downloadFile, getExportFilename, toExpenseCsv, toExpenseJson, type ExportFormat } from '@/lib/export';
+import { formatBudgetPeriod } from '@/lib/budget-period';
+import { toCalendarDate } from '@/lib/recurrence';
+
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Download, FileJson, FileSpreadsheet, FileText, Sparkles } from 'lucide-react';
+
+interface ExportMenuProps {
+  expenses: Expense[];
+  subcategories: Subcategory[];
+  currency: Currency;
+  period: BudgetPeriod;
+}
+
+export function ExportMenu({ expenses, subcategories, currency, period }: ExportMenuProps) {
+  const { toast } = useToast();
+
+  const handleExport = (format: ExportFormat) => {
+    const content = format === 'csv'
+      ? toExpenseCsv(expenses, subcategories, currency)
+      : toExpenseJson(expenses, subcategories, currency);
+    downloadFile(content, getExportFilename(period, format), format);
+    toast({
+      title: 'Export Ready',
+      description: `${expenses.length} expense${expenses.length === 1 ? '' : 's'} from ${formatBudgetPeriod(period)}.`,
+    });
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="gap-2">
+          <Download className="h-4 w-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel className="font-normal text-muted-foreground">{formatBudgetPeriod(period)}</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={() => handleExport('csv')} disabled={expenses.length === 0}>
+          <FileSpreadsheet className="mr-2 h-4 w-4" />
+          <span>Expenses as CSV</span>
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => handleExport('json')} disabled={expenses.length === 0}>
+          <FileJson className="mr-2 h-4 w-4" />
+          <span>Expenses as JSON</span>
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild>
+          <Link href={`/dashboard/statement?start=${toCalendarDate(period.start)}`}>
+            <FileText className="mr-2 h-4 w-4" />
+            <span>Monthly statement (PDF)</span>
+          </Link>
+        </DropdownMenuItem>
+        <DropdownMenuItem asChild>
+          <Link href="/dashboard/reports">
+            <Sparkles className="mr-2 h-4 w-4" />
+            <span>AI monthly report</span>
+          </Link>
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
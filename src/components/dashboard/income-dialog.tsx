@@ -0,0 +1,187 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { addDoc, collection, serverTimestamp, Timestamp } from 'firebase/firestore';
+import { useFirestore } from '@/firebase/provider';
+import { useAuth } from '@/firebase/auth-provider';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { useToast } from '@/hooks/use-toast';
+import { withTimeOfDay } from '@/lib/expenses';
+import { DatePicker } from './date-picker';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+
+const formSchema = z.object({
+  source: z.string().min(1, { message: 'Source is required.' }).max(50, { message: 'Source must not be longer than 50 characters.' }),
+  amount: z.coerce.number().positive({ message: 'Amount must be a positive number.' }),
+  date: z.date({ required_error: 'Please pick a date.' }),
+  recurring: z.boolean(),
+});
+
+type IncomeFormValues = z.infer<typeof formSchema>;
+
+interface IncomeDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currency: string;
+}
+
+export function IncomeDialog({ open, onOpenChange, currency }: IncomeDialogProps) {
+  const { user } = useAuth();
+  const db = useFirestore();
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const form = useForm<IncomeFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      source: '',
+      amount: undefined,
+      date: new Date(),
+      recurring: false,
+    },
+  });
+
+  const recurring = form.watch('recurring');
+
+  async function onSubmit(values: IncomeFormValues) {
+    if (!user) return;
+    setIsSaving(true);
+
+    const incomesColRef = collection(db, 'users', user.uid, 'incomes');
+    const newIncome = {
+      source: values.source,
+      amount: values.amount,
+      currency,
+      date: Timestamp.fromDate(withTimeOfDay(values.date)),
+      recurring: values.recurring,
+      endDate: null,
+      createdAt: serverTimestamp(),
+    };
+
+    addDoc(incomesColRef, newIncome)
+      .then(() => {
+        toast({
+          title: 'Income Added',
+          description: values.recurring
+            ? `${values.source} will count toward every period from now on.`
+            : `${values.source} has been added to this period.`,
+        });
+        form.reset();
+        onOpenChange(false);
+      })
+      .catch((serverError) => {
+        const permissionError = new FirestorePermissionError({
+          path: incomesColRef.path,
+          operation: 'create',
+          requestResourceData: newIncome,
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      })
+      .finally(() => {
+        setIsSaving(false);
+      });
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add Income</DialogTitle>
+          <DialogDescription>A salary, side gig or any one-off payment.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="source"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Source</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Freelance project" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount ({currency})</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" placeholder="e.g., 1200" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{recurring ? 'Starts' : 'Received'}</FormLabel>
+                    <FormControl>
+                      <DatePicker value={field.value} onChange={field.onChange} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="recurring"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center justify-between gap-4 rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Recurring</FormLabel>
+                    <FormDescription>Counts toward every budget period until you stop it.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Add Income'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
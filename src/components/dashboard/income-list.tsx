@@ -0,0 +1,170 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { deleteDoc, doc, Timestamp, updateDoc } from 'firebase/firestore';
+import { format } from 'date-fns';
+import { useFirestore } from '@/firebase/provider';
+import { useAuth } from '@/firebase/auth-provider';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { useToast } from '@/hooks/use-toast';
+import type { BudgetPeriod, Currency, ExchangeRateTable, Income } from '@/lib/types';
+import { useFormatCurrency } from '@/hooks/use-format-currency';
+import { formatBudgetPeriod } from '@/lib/budget-period';
+import { getPeriodIncomes } from '@/lib/income';
+import { convertAmount, getExpenseCurrency, toBaseCurrency } from '@/lib/exchange-rates';
+import { IncomeDialog } from './income-dialog';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { Plus, Square, Trash2, Wallet } from 'lucide-react';
+
+interface IncomeListProps {
+  incomes: Income[];
+  period: BudgetPeriod;
+  currency: Currency;
+  exchangeRates?: ExchangeRateTable;
+}
+
+export function IncomeList({ incomes, period, currency, exchangeRates }: IncomeListProps) {
+  const formatCurrency = useFormatCurrency();
+  const { user } = useAuth();
+  const db = useFirestore();
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const periodIncomes = useMemo(() => getPeriodIncomes(incomes, period), [incomes, period]);
+  const total = toBaseCurrency(periodIncomes, currency, exchangeRates).items.reduce((acc, income) => acc + income.amount, 0);
+
+  // Foreign-currency incomes show the amount received with the base-currency equivalent beneath.
+  const formatAmount = (income: Income) => {
+    const incomeCurrency = getExpenseCurrency(income, currency);
+    if (incomeCurrency === currency) return formatCurrency(income.amount, currency);
+
+    const converted = convertAmount(income.amount, incomeCurrency, currency, exchangeRates);
+    return (
+      <div className="text-right">
+        <div>{formatCurrency(income.amount, incomeCurrency)}</div>
+        <div className="text-xs text-muted-foreground">
+          {converted === null ? 'No exchange rate' : `≈ ${formatCurrency(converted, currency)}`}
+        </div>
+      </div>
+    );
+  };
+
+  const handleStop = (income: Income) => {
+    if (!user) return;
+    const incomeDocRef = doc(db, 'users', user.uid, 'incomes', income.id);
+    const stopData = { endDate: Timestamp.now() };
+
+    updateDoc(incomeDocRef, stopData)
+      .then(() => {
+        toast({
+          title: 'Recurring Income Stopped',
+          description: `${income.source} won't count toward future periods.`,
+        });
+      })
+      .catch((serverError) => {
+        const permissionError = new FirestorePermissionError({
+          path: incomeDocRef.path,
+          operation: 'update',
+          requestResourceData: stopData,
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      });
+  };
+
+  const handleDelete = (income: Income) => {
+    if (!user) return;
+    const incomeDocRef = doc(db, 'users', user.uid, 'incomes', income.id);
+
+    deleteDoc(incomeDocRef)
+      .then(() => {
+        toast({
+          title: 'Income Deleted',
+          description: income.recurring
+            ? `${income.source} has been removed from every period.`
+            : `${income.source} has been removed.`,
+        });
+      })
+      .catch((serverError) => {
+        const permissionError = new FirestorePermissionError({
+          path: incomeDocRef.path,
+          operation: 'delete',
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      });
+  };
+
+  const describeIncome = (income: Income) => {
+    if (!income.recurring) return `Received ${format(income.date.toDate(), 'MMM d')}`;
+    if (income.endDate) return `Recurring · stopped ${format(income.endDate.toDate(), 'MMM d, yyyy')}`;
+    return 'Recurring';
+  };
+
+  return (
+    <>
+      <Card className="glassmorphism">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Wallet className="h-5 w-5" />
+              Income
+            </CardTitle>
+            <CardDescription>Everything counted toward {formatBudgetPeriod(period)}.</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" className="gap-2" onClick={() => setIsDialogOpen(true)}>
+            <Plus className="h-4 w-4" />
+            Add income
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {periodIncomes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No income recorded for this period.</p>
+          ) : (
+            <ul className="space-y-2">
+              {periodIncomes.map((income) => (
+                <li key={income.id} className="flex items-center justify-between gap-4 text-sm">
+                  <div>
+                    <div className="font-medium">
+                      {income.source}
+                      {income.recurring && !income.endDate && <Badge variant="secondary" className="ml-2">Recurring</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">{describeIncome(income)}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{formatAmount(income)}</span>
+                    {income.recurring && !income.endDate && (
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleStop(income)}>
+                        <Square className="h-4 w-4" />
+                        <span className="sr-only">Stop recurring income</span>
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => handleDelete(income)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                      <span className="sr-only">Delete income</span>
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+          <Separator />
+          <div className="flex items-center justify-between text-sm font-medium">
+            <span>Total</span>
+            <span>{formatCurrency(total, currency)}</span>
+          </div>
+        </CardContent>
+      </Card>
+
+      <IncomeDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} currency={currency} />
+    </>
+  );
+}
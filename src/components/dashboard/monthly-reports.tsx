@@ -0,0 +1,304 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { differenceInCalendarMonths, format } from 'date-fns';
+import { useAuth } from '@/firebase/auth-provider';
+import { useReports } from '@/hooks/use-reports';
+import { useToast } from '@/hooks/use-toast';
+import { useFormatCurrency } from '@/hooks/use-format-currency';
+import { getBudgetPeriod } from '@/lib/budget-period';
+import { getClientClock } from '@/lib/client-clock';
+import { downloadFile } from '@/lib/export';
+import { GOAL_STATUS_LABELS } from '@/lib/goals';
+import { parseCalendarDate } from '@/lib/recurrence';
+import { getReportFilename, toReportMarkdown } from '@/lib/reports';
+import type { MonthlyReport } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft, FileDown, Printer, RefreshCw, Sparkles } from 'lucide-react';
+
+/**
+ * Monthly reports written by AI from each budget period's figures. Opening the
+ * page generates the report for the last finished period if there isn't one.
+ */
+export function MonthlyReports() {
+  const formatCurrency = useFormatCurrency();
+  const { user, userData, loading } = useAuth();
+  const { reports, loading: reportsLoading } = useReports();
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const hasCheckedLatest = useRef(false);
+
+  const report = reports.find((r) => r.id === selectedId) ?? reports[0];
+
+  const generateReport = async (periodsAgo: number, ifMissing = false) => {
+    if (!user) return;
+    setIsGenerating(true);
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch('/api/reports', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ periodsAgo, ifMissing, ...getClientClock() }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Request failed with status ${response.status}`);
+      }
+      if (data.created) {
+        setSelectedId(data.id);
+        toast({ title: 'Report Ready', description: 'Your monthly report has been written.' });
+      }
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Report Failed', description: error.message });
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  useEffect(() => {
+    if (!user || reportsLoading || hasCheckedLatest.current) return;
+    hasCheckedLatest.current = true;
+    // Only once per visit, after the first snapshot.
+    generateReport(1, true);
+  }, [user, reportsLoading]);
+
+  // How many periods back a report is, for regenerating it.
+  const getPeriodsAgo = (target: MonthlyReport) =>
+    differenceInCalendarMonths(
+      getBudgetPeriod(new Date(), userData?.periodStartDay).start,
+      parseCalendarDate(target.periodStart)
+    );
+
+  const handleDownload = () => {
+    if (!report) return;
+    const formatAmount = (amount: number) => formatCurrency(amount, report.currency);
+    downloadFile(toReportMarkdown(report, formatAmount), getReportFilename(report), 'md');
+  };
+
+  if (loading || reportsLoading) {
+    return (
+      <div className="container mx-auto p-4 md:p-8 space-y-8">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-40 rounded-lg" />
+        <Skeleton className="h-80 rounded-lg" />
+      </div>
+    );
+  }
+
+  const formatAmount = (amount: number) => formatCurrency(amount, report?.currency || userData?.currency || 'USD');
+
+  return (
+    <div className="container mx-auto p-4 md:p-8 space-y-8 print:p-0">
+      <div className="flex flex-wrap items-center justify-between gap-4 print:hidden">
+        <Link href="/dashboard" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="h-4 w-4" />
+          Back to Dashboard
+        </Link>
+        <div className="flex flex-wrap gap-2">
+          {reports.length > 0 && (
+            <Select value={report?.id} onValueChange={setSelectedId}>
+              <SelectTrigger className="w-[200px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {reports.map((r) => (
+                  <SelectItem key={r.id} value={r.id}>{r.periodLabel}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Button variant="outline" className="gap-2" onClick={() => generateReport(0)} disabled={isGenerating}>
+            <Sparkles className="h-4 w-4" />
+            This period so far
+          </Button>
+          {report && (
+            <>
+              <Button variant="outline" className="gap-2" onClick={() => generateReport(getPeriodsAgo(report))} disabled={isGenerating}>
+                <RefreshCw className={cn('h-4 w-4', isGenerating && 'animate-spin')} />
+                Regenerate
+              </Button>
+              <Button variant="outline" className="gap-2" onClick={handleDownload}>
+                <FileDown className="h-4 w-4" />
+                Markdown
+              </Button>
+              <Button className="gap-2" onClick={() => window.print()}>
+                <Printer className="h-4 w-4" />
+                Download PDF
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {!report ? (
+        <Card className="glassmorphism">
+          <CardHeader>
+            <CardTitle>Monthly Reports</CardTitle>
+            <CardDescription>
+              {isGenerating ? 'Writing your first report...' : 'No reports yet. Generate one for the period so far.'}
+            </CardDescription>
+          </CardHeader>
+          {isGenerating && (
+            <CardContent>
+              <Skeleton className="h-24 rounded-lg" />
+            </CardContent>
+          )}
+        </Card>
+      ) : (
+        <>
+          <div>
+            <h1 className="text-4xl font-bold tracking-tighter">Monthly Report · {report.periodLabel}</h1>
+            <p className="text-muted-foreground">
+              {userData?.displayName || user?.email}
+              {report.createdAt && ` · Generated ${format(report.createdAt.toDate(), 'MMM d, yyyy')}`}
+              {report.isPartial && ' · Period still in progress'}
+            </p>
+          </div>
+
+          <Card className="glassmorphism break-inside-avoid">
+            <CardHeader>
+              <CardTitle>Summary</CardTitle>
+              <CardDescription>
+                Income {formatAmount(report.income)} · Spent {formatAmount(report.totalSpent)} · Previous period {formatAmount(report.previousTotalSpent)}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm leading-relaxed">{report.summary}</p>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-8 md:grid-cols-2">
+            <Card className="glassmorphism break-inside-avoid">
+              <CardHeader>
+                <CardTitle>Categories</CardTitle>
+                <CardDescription>Spending against your allocation.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Category</TableHead>
+                      <TableHead className="text-right">Allocated</TableHead>
+                      <TableHead className="text-right">Spent</TableHead>
+                      <TableHead className="text-right">Last period</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.categories.map((c) => {
+                      const isOver = report.overAllocation.some((o) => o.category === c.category);
+                      return (
+                        <TableRow key={c.category}>
+                          <TableCell className="font-medium">{c.category}</TableCell>
+                          <TableCell className="text-right">{formatAmount(c.allocated)}</TableCell>
+                          <TableCell className={cn('text-right', isOver && 'text-destructive')}>{formatAmount(c.spent)}</TableCell>
+                          <TableCell className="text-right text-muted-foreground">{formatAmount(c.previousSpent)}</TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+                {report.overAllocation.length > 0 && (
+                  <p className="mt-4 text-sm text-destructive">
+                    Over allocation:{' '}
+                    {report.overAllocation.map((o) => `${o.category} by ${formatAmount(o.over)}`).join(', ')}.
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="glassmorphism break-inside-avoid">
+              <CardHeader>
+                <CardTitle>Top Changes</CardTitle>
+                <CardDescription>The biggest moves against last period.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {report.topChanges.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Spending matched last period.</p>
+                ) : (
+                  <ul className="space-y-2 text-sm">
+                    {report.topChanges.map((c) => (
+                      <li key={`${c.category}-${c.label}`} className="flex items-center justify-between gap-4">
+                        <span>
+                          {c.label} <span className="text-muted-foreground">· {c.category}</span>
+                        </span>
+                        <span className={cn('font-medium', c.change > 0 ? 'text-destructive' : 'text-primary')}>
+                          {c.change > 0 ? '+' : '−'}{formatAmount(Math.abs(c.change))}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {report.goals.length > 0 && (
+            <Card className="glassmorphism break-inside-avoid">
+              <CardHeader>
+                <CardTitle>Savings Goals</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {report.goals.map((goal) => (
+                  <div key={goal.id} className="space-y-1.5 text-sm">
+                    <div className="flex justify-between gap-4">
+                      <span className="font-medium">{goal.name}</span>
+                      <span className="text-muted-foreground">
+                        {formatAmount(goal.saved)} of {formatAmount(goal.target)} · {GOAL_STATUS_LABELS[goal.status]}
+                      </span>
+                    </div>
+                    <Progress value={goal.percent} />
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          <Card className="glassmorphism break-inside-avoid">
+            <CardHeader>
+              <CardTitle>Suggestions</CardTitle>
+              <CardDescription>For the next period.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ol className="space-y-3 text-sm">
+                {report.suggestions.map((s, i) => (
+                  <li key={i} className="flex gap-3">
+                    <span className="font-bold text-primary">{i + 1}.</span>
+                    <div>
+                      <p className="font-medium">{s.title}</p>
+                      <p className="text-muted-foreground">{s.detail}</p>
+                    </div>
+                  </li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
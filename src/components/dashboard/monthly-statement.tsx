@@ -0,0 +1,241 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { collection, getDocs, orderBy, query, Timestamp, where } from 'firebase/firestore';
+import { format } from 'date-fns';
+import { useAuth } from '@/firebase/auth-provider';
+import { useFirestore, useFirebaseAuth } from '@/firebase/provider';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { useSubcategories } from '@/hooks/use-subcategories';
+import { useIncomes } from '@/hooks/use-incomes';
+import type { Expense } from '@/lib/types';
+import { useFormatCurrency } from '@/hooks/use-format-currency';
+import { formatBudgetPeriod, getBudgetPeriod } from '@/lib/budget-period';
+import { resolveAllocation } from '@/lib/allocation';
+import { EXPENSE_CATEGORIES, getBudgetSummary } from '@/lib/budget';
+import { getPeriodIncome } from '@/lib/income';
+import { getExpenseCurrency, toBaseCurrency } from '@/lib/exchange-rates';
+import { isCalendarDate, parseCalendarDate } from '@/lib/recurrence';
+import { isTrashed } from '@/lib/trash';
+import { getExpenseDate } from '@/lib/expenses';
+import { findSubcategory } from '@/lib/subcategories';
+import { cn } from '@/lib/utils';
+import { ExpenseBreakdownChart } from './expense-breakdown-chart';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ArrowLeft, Printer } from 'lucide-react';
+
+interface MonthlyStatementProps {
+  // Any yyyy-MM-dd inside the period; defaults to the current one.
+  start?: string;
+}
+
+/**
+ * A print-friendly statement for one budget period. "Download PDF" uses the
+ * browser's print dialog, so the page hides the app chrome when printed.
+ */
+export function MonthlyStatement({ start }: MonthlyStatementProps) {
+  const formatCurrency = useFormatCurrency();
+  const { user, userData, loading } = useAuth();
+  const db = useFirestore();
+  const auth = useFirebaseAuth();
+  const { subcategories } = useSubcategories();
+  const { incomes, loading: incomesLoading } = useIncomes();
+  const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [expensesLoading, setExpensesLoading] = useState(true);
+  const currency = userData?.currency || 'USD';
+
+  const period = useMemo(
+    () => getBudgetPeriod(start && isCalendarDate(start) ? parseCalendarDate(start) : new Date(), userData?.periodStartDay),
+    [start, userData?.periodStartDay]
+  );
+
+  useEffect(() => {
+    if (!user) {
+      setExpensesLoading(false);
+      return;
+    }
+
+    const expensesColRef = collection(db, 'users', user.uid, 'expenses');
+    const expensesQuery = query(
+      expensesColRef,
+      where('date', '>=', Timestamp.fromDate(period.start)),
+      where('date', '<', Timestamp.fromDate(period.end)),
+      orderBy('date', 'asc')
+    );
+
+    setExpensesLoading(true);
+    getDocs(expensesQuery)
+      .then((snapshot) => {
+        const expensesData = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as Expense[];
+        setExpenses(expensesData.filter(expense => !isTrashed(expense)));
+      })
+      .catch((error) => {
+        if (auth.currentUser) {
+          const permissionError = new FirestorePermissionError({
+            path: expensesColRef.path,
+            operation: 'list',
+          });
+          errorEmitter.emit('permission-error', permissionError);
+        }
+      })
+      .finally(() => setExpensesLoading(false));
+  }, [user, db, auth, period]);
+
+  const allocation = useMemo(() => resolveAllocation(userData?.allocation), [userData?.allocation]);
+  const { items: baseExpenses, missingRates: expenseMissingRates } = useMemo(
+    () => toBaseCurrency(expenses, currency, userData?.exchangeRates),
+    [expenses, currency, userData?.exchangeRates]
+  );
+  const { items: baseIncomes, missingRates: incomeMissingRates } = useMemo(
+    () => toBaseCurrency(incomes, currency, userData?.exchangeRates),
+    [incomes, currency, userData?.exchangeRates]
+  );
+  const missingRates = useMemo(
+    () => Array.from(new Set([...expenseMissingRates, ...incomeMissingRates])),
+    [expenseMissingRates, incomeMissingRates]
+  );
+  const summary = useMemo(
+    () => getBudgetSummary(getPeriodIncome(baseIncomes, period), allocation, baseExpenses),
+    [baseIncomes, period, allocation, baseExpenses]
+  );
+
+  if (loading || expensesLoading || incomesLoading) {
+    return (
+      <div className="container mx-auto p-4 md:p-8 space-y-8">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-40 rounded-lg" />
+        <Skeleton className="h-80 rounded-lg" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 md:p-8 space-y-8 print:p-0">
+      <div className="flex flex-wrap items-center justify-between gap-4 print:hidden">
+        <Link href="/dashboard" className="inline-flex items-center gap-2 text-sm text-muted-foreground hover:text-foreground">
+          <ArrowLeft className="h-4 w-4" />
+          Back to Dashboard
+        </Link>
+        <Button className="gap-2" onClick={() => window.print()}>
+          <Printer className="h-4 w-4" />
+          Download PDF
+        </Button>
+      </div>
+
+      <div>
+        <h1 className="text-4xl font-bold tracking-tighter">Statement · {formatBudgetPeriod(period)}</h1>
+        <p className="text-muted-foreground">
+          {userData?.displayName || user?.email} · Generated {format(new Date(), 'MMM d, yyyy')}
+        </p>
+      </div>
+
+      <Card className="glassmorphism break-inside-avoid">
+        <CardHeader>
+          <CardTitle>Budget Summary</CardTitle>
+          <CardDescription>
+            Income of {formatCurrency(summary.income, currency)} split across your allocation.
+            {missingRates.length > 0 && ` ${missingRates.join(', ')} amounts are counted unconverted for lack of an exchange rate.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Category</TableHead>
+                <TableHead className="text-right">Allocation</TableHead>
+                <TableHead className="text-right">Budget</TableHead>
+                <TableHead className="text-right">Spent</TableHead>
+                <TableHead className="text-right">Remaining</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {EXPENSE_CATEGORIES.map((category) => {
+                const { percent, allocated, spent } = summary.categories[category];
+                const remaining = allocated - spent;
+                return (
+                  <TableRow key={category}>
+                    <TableCell className="font-medium">{category}</TableCell>
+                    <TableCell className="text-right">{percent}%</TableCell>
+                    <TableCell className="text-right">{formatCurrency(allocated, currency)}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(spent, currency)}</TableCell>
+                    <TableCell className={cn('text-right', remaining < 0 && 'text-destructive')}>
+                      {formatCurrency(remaining, currency)}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+            <TableFooter>
+              <TableRow>
+                <TableCell>Total</TableCell>
+                <TableCell className="text-right">Savings rate {summary.savingsRate.toFixed(0)}%</TableCell>
+                <TableCell className="text-right">{formatCurrency(summary.income, currency)}</TableCell>
+                <TableCell className="text-right">{formatCurrency(summary.totalSpent, currency)}</TableCell>
+                <TableCell className={cn('text-right', summary.balance < 0 && 'text-destructive')}>
+                  {formatCurrency(summary.balance, currency)}
+                </TableCell>
+              </TableRow>
+            </TableFooter>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <div className="break-inside-avoid">
+        <ExpenseBreakdownChart expenses={baseExpenses} subcategories={subcategories} currency={currency} />
+      </div>
+
+      <Card className="glassmorphism">
+        <CardHeader>
+          <CardTitle>Transactions</CardTitle>
+          <CardDescription>{expenses.length} expense{expenses.length === 1 ? '' : 's'} in this period.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {expenses.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No expenses recorded in this period.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {expenses.map((expense) => {
+                  const subcategory = findSubcategory(subcategories, expense.subcategoryId);
+                  return (
+                    <TableRow key={expense.id} className="break-inside-avoid">
+                      <TableCell>{format(getExpenseDate(expense), 'MMM d')}</TableCell>
+                      <TableCell>{expense.name}</TableCell>
+                      <TableCell>
+                        {expense.category}
+                        {subcategory && <span className="text-muted-foreground"> · {subcategory.name}</span>}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(expense.amount, getExpenseCurrency(expense, currency))}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight, CalendarDays } from 'lucide-react';
+import type { BudgetPeriod } from '@/lib/types';
+import {
+  formatBudgetPeriod,
+  getBudgetPeriod,
+  isSameBudgetPeriod,
+  shiftBudgetPeriod,
+} from '@/lib/budget-period';
+
+interface PeriodPickerProps {
+  period: BudgetPeriod;
+  onPeriodChange: (period: BudgetPeriod) => void;
+}
+
+export function PeriodPicker({ period, onPeriodChange }: PeriodPickerProps) {
+  const currentPeriod = getBudgetPeriod(new Date(), period.startDay);
+  const isCurrent = isSameBudgetPeriod(period, currentPeriod);
+
+  return (
+    <div className="flex items-center gap-2 glassmorphism rounded-lg p-1">
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => onPeriodChange(shiftBudgetPeriod(period, -1))}
+      >
+        <ChevronLeft className="h-4 w-4" />
+        <span className="sr-only">Previous period</span>
+      </Button>
+      <div className="flex items-center gap-2 min-w-[180px] justify-center text-sm font-medium">
+        <CalendarDays className="h-4 w-4 text-muted-foreground" />
+        {formatBudgetPeriod(period)}
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => onPeriodChange(shiftBudgetPeriod(period, 1))}
+        disabled={isCurrent}
+      >
+        <ChevronRight className="h-4 w-4" />
+        <span className="sr-only">Next period</span>
+      </Button>
+      {!isCurrent && (
+        <Button variant="outline" size="sm" onClick={() => onPeriodChange(currentPeriod)}>
+          Today
+        </Button>
+      )}
+    </div>
+  );
+}
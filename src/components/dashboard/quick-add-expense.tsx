@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/firebase/auth-provider';
+import { useFormatCurrency } from '@/hooks/use-format-currency';
+import { useCategorySuggestion } from '@/hooks/use-category-suggestion';
+import { MAX_QUICK_ADD_LENGTH, parseQuickAdd, type ParsedExpense } from '@/lib/quick-add';
+import { parseCalendarDate, toCalendarDate } from '@/lib/recurrence';
+import type { Currency } from '@/lib/types';
+import { NO_GOAL, NO_SUBCATEGORY, type ExpenseFormValues } from './add-expense-form';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Pencil, Sparkles, X } from 'lucide-react';
+
+interface QuickAddExpenseProps {
+  currency: Currency;
+  isSaving: boolean;
+  // Resolves true once the expense is saved.
+  onAdd: (values: ExpenseFormValues) => Promise<boolean>;
+  onEdit: (values: ExpenseFormValues) => void;
+}
+
+export function QuickAddExpense({ currency, isSaving, onAdd, onEdit }: QuickAddExpenseProps) {
+  const { user } = useAuth();
+  const formatCurrency = useFormatCurrency();
+  const [text, setText] = useState('');
+  const [parsed, setParsed] = useState<ParsedExpense | null>(null);
+  const [isParsing, setIsParsing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fills in the category when the line didn't name one, and the subcategory when it agrees.
+  const { suggestion } = useCategorySuggestion({
+    name: parsed?.name ?? '',
+    amount: parsed?.amount,
+    enabled: !!parsed,
+  });
+  const category = parsed?.category ?? suggestion?.category ?? 'Needs';
+  const isSuggestedCategory = !parsed?.category && !!suggestion;
+
+  const toFormValues = (expense: ParsedExpense): ExpenseFormValues => ({
+    name: expense.name,
+    amount: expense.amount,
+    currency: expense.currency ?? currency,
+    category,
+    subcategoryId: suggestion?.category === category ? suggestion.subcategoryId ?? NO_SUBCATEGORY : NO_SUBCATEGORY,
+    goalId: NO_GOAL,
+    date: parseCalendarDate(expense.date),
+  });
+
+  // Common patterns are read locally; anything else goes to the model.
+  const handleParse = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const line = text.trim();
+    if (!line || !user) return;
+    setError(null);
+
+    const local = parseQuickAdd(line);
+    if (local) {
+      setParsed(local);
+      return;
+    }
+
+    setIsParsing(true);
+    try {
+      const token = await user.getIdToken();
+      const response = await fetch('/api/parse-expense', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ text: line, today: toCalendarDate(new Date()) }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || `Request failed with status ${response.status}`);
+      }
+      setParsed(data);
+    } catch (parseError: any) {
+      setError(parseError.message || "Couldn't read that. Try something like \"coffee 4.50 yesterday wants\".");
+    } finally {
+      setIsParsing(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!parsed) return;
+    if (await onAdd(toFormValues(parsed))) {
+      setText('');
+      setParsed(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleParse} className="flex gap-2">
+        <Input
+          value={text}
+          onChange={(event) => {
+            setText(event.target.value);
+            setParsed(null);
+            setError(null);
+          }}
+          placeholder='e.g., coffee 4.50 yesterday wants'
+          maxLength={MAX_QUICK_ADD_LENGTH}
+          disabled={isParsing}
+          aria-label="Describe the expense"
+        />
+        <Button type="submit" variant="secondary" disabled={isParsing || !text.trim()}>
+          {isParsing ? 'Reading...' : 'Read'}
+        </Button>
+      </form>
+      {error && <p className="text-sm font-medium text-destructive">{error}</p>}
+
+      {parsed && (
+        <div className="space-y-3 rounded-md border p-3">
+          <div className="flex items-start justify-between gap-2">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{parsed.name}</Badge>
+              <Badge variant="secondary">{formatCurrency(parsed.amount, parsed.currency ?? currency)}</Badge>
+              <Badge variant="secondary" className="gap-1">
+                {isSuggestedCategory && <Sparkles className="h-3 w-3" />}
+                {category}
+              </Badge>
+              <Badge variant="secondary">{format(parseCalendarDate(parsed.date), 'MMM d, yyyy')}</Badge>
+            </div>
+            <Button type="button" variant="ghost" size="icon" className="h-6 w-6 shrink-0" onClick={() => setParsed(null)}>
+              <X className="h-4 w-4" />
+              <span className="sr-only">Discard</span>
+            </Button>
+          </div>
+          {parsed.source === 'ai' && (
+            <p className="text-xs text-muted-foreground">Read by AI. Check the details before adding.</p>
+          )}
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" className="flex-1 gap-2" onClick={() => onEdit(toFormValues(parsed))}>
+              <Pencil className="h-4 w-4" />
+              Edit
+            </Button>
+            <Button type="button" className="flex-1" onClick={handleAdd} disabled={isSaving}>
+              {isSaving ? 'Adding...' : 'Add Expense'}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
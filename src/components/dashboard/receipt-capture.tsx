@@ -0,0 +1,147 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import Image from 'next/image';
+import { deleteObject, getDownloadURL, ref, uploadBytes, type FirebaseStorage } from 'firebase/storage';
+import { useFirebaseStorage } from '@/firebase/provider';
+import { useAuth } from '@/firebase/auth-provider';
+import { useToast } from '@/hooks/use-toast';
+import {
+  blobToDataUri,
+  getReceiptPath,
+  isReceiptFile,
+  resizeReceiptImage,
+  type ReceiptExtraction,
+} from '@/lib/receipts';
+import { toCalendarDate } from '@/lib/recurrence';
+
+import { Button } from '@/components/ui/button';
+import { Camera, X } from 'lucide-react';
+
+export interface ReceiptAttachment {
+  path: string;
+  url: string;
+}
+
+interface ReceiptCaptureProps {
+  receipt: ReceiptAttachment | null;
+  onReceiptChange: (receipt: ReceiptAttachment | null) => void;
+  onExtracted: (extraction: ReceiptExtraction) => void;
+  disabled?: boolean;
+}
+
+// Best effort: a leftover image only costs storage, so failures are just logged.
+export function deleteReceiptImage(storage: FirebaseStorage, path: string) {
+  deleteObject(ref(storage, path)).catch((error) => {
+    console.error('Error deleting receipt image:', error);
+  });
+}
+
+/**
+ * Uploads a receipt photo to Storage and reads it with the model at the same
+ * time, so the form can be pre-filled while the image is attached.
+ */
+export function ReceiptCapture({ receipt, onReceiptChange, onExtracted, disabled }: ReceiptCaptureProps) {
+  const { user } = useAuth();
+  const storage = useFirebaseStorage();
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isScanning, setIsScanning] = useState(false);
+
+  const extractReceipt = async (image: Blob): Promise<ReceiptExtraction> => {
+    const token = await user!.getIdToken();
+    const response = await fetch('/api/extract-receipt', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`,
+      },
+      body: JSON.stringify({ image: await blobToDataUri(image), today: toCalendarDate(new Date()) }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `Request failed with status ${response.status}`);
+    }
+    return data;
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Let the same file be picked again after removing it.
+    event.target.value = '';
+    if (!file || !user) return;
+
+    if (!isReceiptFile(file)) {
+      toast({ variant: 'destructive', title: 'Unsupported File', description: 'Choose an image under 10 MB.' });
+      return;
+    }
+
+    setIsScanning(true);
+    try {
+      const image = await resizeReceiptImage(file);
+      const path = getReceiptPath(user.uid, crypto.randomUUID());
+      const receiptRef = ref(storage, path);
+
+      const [upload, extraction] = await Promise.allSettled([
+        uploadBytes(receiptRef, image, { contentType: 'image/jpeg' }).then(() => getDownloadURL(receiptRef)),
+        extractReceipt(image),
+      ]);
+
+      if (upload.status === 'fulfilled') {
+        // The replaced photo was never saved with an expense.
+        if (receipt) deleteReceiptImage(storage, receipt.path);
+        onReceiptChange({ path, url: upload.value });
+      } else {
+        console.error('Error uploading receipt:', upload.reason);
+        toast({ variant: 'destructive', title: 'Receipt Not Attached', description: 'The photo could not be uploaded.' });
+      }
+
+      if (extraction.status === 'fulfilled' && Object.keys(extraction.value).length > 0) {
+        onExtracted(extraction.value);
+        toast({ title: 'Receipt Read', description: 'Check the details before adding the expense.' });
+      } else {
+        toast({ title: "Couldn't Read the Receipt", description: 'Please fill in the details yourself.' });
+      }
+    } catch (error: any) {
+      toast({ variant: 'destructive', title: 'Unsupported File', description: error.message });
+    } finally {
+      setIsScanning(false);
+    }
+  };
+
+  const handleRemove = () => {
+    if (!receipt) return;
+    deleteReceiptImage(storage, receipt.path);
+    onReceiptChange(null);
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      <input ref={inputRef} type="file" accept="image/*" capture="environment" className="hidden" onChange={handleFile} />
+      {receipt && (
+        <div className="relative h-12 w-12 shrink-0 overflow-hidden rounded-md border">
+          <Image src={receipt.url} alt="Receipt" fill sizes="48px" className="object-cover" />
+          <button
+            type="button"
+            className="absolute right-0 top-0 rounded-bl bg-background/80 p-0.5"
+            onClick={handleRemove}
+            disabled={disabled || isScanning}
+          >
+            <X className="h-3 w-3" />
+            <span className="sr-only">Remove receipt</span>
+          </button>
+        </div>
+      )}
+      <Button
+        type="button"
+        variant="outline"
+        className="flex-1 gap-2"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || isScanning || !user}
+      >
+        <Camera className="h-4 w-4" />
+        {isScanning ? 'Reading receipt...' : receipt ? 'Replace receipt' : 'Scan a receipt'}
+      </Button>
+    </div>
+  );
+}
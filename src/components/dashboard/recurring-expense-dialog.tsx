@@ -0,0 +1,292 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { addDoc, collection, serverTimestamp } from 'firebase/firestore';
+import { useFirestore } from '@/firebase/provider';
+import { useAuth } from '@/firebase/auth-provider';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { useToast } from '@/hooks/use-toast';
+import { toCalendarDate } from '@/lib/recurrence';
+import { DatePicker } from './date-picker';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+const formSchema = z
+  .object({
+    name: z.string().min(1, { message: 'Name is required.' }),
+    amount: z.coerce.number().positive({ message: 'Amount must be a positive number.' }),
+    category: z.enum(['Needs', 'Wants', 'Savings']),
+    frequency: z.enum(['weekly', 'monthly', 'yearly']),
+    interval: z.coerce.number().int().min(1, { message: 'Must repeat at least every 1.' }).max(24),
+    dayOfMonth: z.coerce.number().int().min(1).max(31),
+    startDate: z.date({ required_error: 'Please pick a start date.' }),
+    endDate: z.date().optional(),
+  })
+  .refine((values) => !values.endDate || values.endDate >= values.startDate, {
+    message: 'End date must be after the start date.',
+    path: ['endDate'],
+  });
+
+type RecurringExpenseFormValues = z.infer<typeof formSchema>;
+
+const FREQUENCY_UNITS = {
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+  yearly: 'year(s)',
+};
+
+interface RecurringExpenseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currency: string;
+}
+
+export function RecurringExpenseDialog({ open, onOpenChange, currency }: RecurringExpenseDialogProps) {
+  const { user } = useAuth();
+  const db = useFirestore();
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const form = useForm<RecurringExpenseFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: '',
+      amount: undefined,
+      category: 'Needs',
+      frequency: 'monthly',
+      interval: 1,
+      dayOfMonth: new Date().getDate(),
+      startDate: new Date(),
+      endDate: undefined,
+    },
+  });
+
+  const frequency = form.watch('frequency');
+
+  async function onSubmit(values: RecurringExpenseFormValues) {
+    if (!user) return;
+    setIsSaving(true);
+
+    const recurringColRef = collection(db, 'users', user.uid, 'recurringExpenses');
+    const newRecurringExpense = {
+      name: values.name,
+      amount: values.amount,
+      currency,
+      category: values.category,
+      subcategoryId: null,
+      schedule: {
+        frequency: values.frequency,
+        interval: values.interval,
+        ...(values.frequency === 'monthly' ? { dayOfMonth: values.dayOfMonth } : {}),
+      },
+      startDate: toCalendarDate(values.startDate),
+      endDate: values.endDate ? toCalendarDate(values.endDate) : null,
+      paused: false,
+      skippedDates: [],
+      lastOccurrence: null,
+      createdAt: serverTimestamp(),
+    };
+
+    addDoc(recurringColRef, newRecurringExpense)
+      .then(() => {
+        toast({
+          title: 'Recurring Expense Added',
+          description: `${values.name} will be added automatically when it's due.`,
+        });
+        form.reset();
+        onOpenChange(false);
+      })
+      .catch((serverError) => {
+        const permissionError = new FirestorePermissionError({
+          path: recurringColRef.path,
+          operation: 'create',
+          requestResourceData: newRecurringExpense,
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      })
+      .finally(() => {
+        setIsSaving(false);
+      });
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add Recurring Expense</DialogTitle>
+          <DialogDescription>Rent, subscriptions and bills that repeat on a schedule.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Netflix" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Amount ({currency})</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" placeholder="e.g., 15.99" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="Needs">Needs</SelectItem>
+                        <SelectItem value="Wants">Wants</SelectItem>
+                        <SelectItem value="Savings">Savings</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="grid grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="frequency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Repeats</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="weekly">Weekly</SelectItem>
+                        <SelectItem value="monthly">Monthly</SelectItem>
+                        <SelectItem value="yearly">Yearly</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="interval"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Every {FREQUENCY_UNITS[frequency]}</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="1" min={1} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              {frequency === 'monthly' && (
+                <FormField
+                  control={form.control}
+                  name="dayOfMonth"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>On day</FormLabel>
+                      <FormControl>
+                        <Input type="number" step="1" min={1} max={31} {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="startDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Starts</FormLabel>
+                    <FormControl>
+                      <DatePicker value={field.value} onChange={field.onChange} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="endDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ends (optional)</FormLabel>
+                    <FormControl>
+                      <DatePicker value={field.value} onChange={field.onChange} placeholder="Never" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Add Recurring Expense'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { addDoc, collection, serverTimestamp } from 'firebase/firestore';
+import { addMonths, startOfDay } from 'date-fns';
+import { useFirestore } from '@/firebase/provider';
+import { useAuth } from '@/firebase/auth-provider';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { useToast } from '@/hooks/use-toast';
+import { toCalendarDate } from '@/lib/recurrence';
+import { DatePicker } from './date-picker';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Name is required.' }).max(40, { message: 'Name must not be longer than 40 characters.' }),
+  targetAmount: z.coerce.number().positive({ message: 'Target must be a positive number.' }),
+  targetDate: z
+    .date({ required_error: 'Please pick a target date.' })
+    .refine((date) => date > startOfDay(new Date()), { message: 'Target date must be in the future.' }),
+});
+
+type SavingsGoalFormValues = z.infer<typeof formSchema>;
+
+interface SavingsGoalDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currency: string;
+}
+
+export function SavingsGoalDialog({ open, onOpenChange, currency }: SavingsGoalDialogProps) {
+  const { user } = useAuth();
+  const db = useFirestore();
+  const { toast } = useToast();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const form = useForm<SavingsGoalFormValues>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: '',
+      targetAmount: undefined,
+      targetDate: addMonths(new Date(), 12),
+    },
+  });
+
+  async function onSubmit(values: SavingsGoalFormValues) {
+    if (!user) return;
+    setIsSaving(true);
+
+    const goalsColRef = collection(db, 'users', user.uid, 'savingsGoals');
+    const newGoal = {
+      name: values.name,
+      targetAmount: values.targetAmount,
+      currency,
+      targetDate: toCalendarDate(values.targetDate),
+      createdAt: serverTimestamp(),
+    };
+
+    addDoc(goalsColRef, newGoal)
+      .then(() => {
+        toast({
+          title: 'Savings Goal Added',
+          description: `Link Savings expenses to ${values.name} to track your progress.`,
+        });
+        form.reset();
+        onOpenChange(false);
+      })
+      .catch((serverError) => {
+        const permissionError = new FirestorePermissionError({
+          path: goalsColRef.path,
+          operation: 'create',
+          requestResourceData: newGoal,
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      })
+      .finally(() => {
+        setIsSaving(false);
+      });
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Add Savings Goal</DialogTitle>
+          <DialogDescription>An emergency fund, a vacation, a new laptop — anything you're saving toward.</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Emergency fund" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="targetAmount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Target ({currency})</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" placeholder="e.g., 10000" {...field} value={field.value ?? ''} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="targetDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Reach it by</FormLabel>
+                    <FormControl>
+                      <DatePicker value={field.value} onChange={field.onChange} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Add Goal'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,146 @@
+'use client';
+
+import { useState } from 'react';
+import { deleteDoc, doc } from 'firebase/firestore';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { useFirestore } from '@/firebase/provider';
+import { useAuth } from '@/firebase/auth-provider';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { useToast } from '@/hooks/use-toast';
+import { useFormatCurrency } from '@/hooks/use-format-currency';
+import type { Expense, SavingsGoal } from '@/lib/types';
+import { GOAL_STATUS_LABELS, getGoalContributions, getGoalProgress, type GoalProgress } from '@/lib/goals';
+import { parseCalendarDate } from '@/lib/recurrence';
+import { cn } from '@/lib/utils';
+import { SavingsGoalDialog } from './savings-goal-dialog';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { AlertTriangle, Plus, Target, Trash2 } from 'lucide-react';
+
+interface SavingsGoalsCardProps {
+  goals: SavingsGoal[];
+  // Contributions already converted to the base currency.
+  contributions: Expense[];
+  currency: string;
+}
+
+export function SavingsGoalsCard({ goals, contributions, currency }: SavingsGoalsCardProps) {
+  const { user } = useAuth();
+  const db = useFirestore();
+  const { toast } = useToast();
+  const formatCurrency = useFormatCurrency();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const handleDelete = (goal: SavingsGoal) => {
+    if (!user) return;
+    const goalDocRef = doc(db, 'users', user.uid, 'savingsGoals', goal.id);
+
+    deleteDoc(goalDocRef)
+      .then(() => {
+        toast({
+          title: 'Savings Goal Deleted',
+          description: `${goal.name} has been removed. Its contributions are kept as Savings expenses.`,
+        });
+      })
+      .catch((serverError) => {
+        const permissionError = new FirestorePermissionError({
+          path: goalDocRef.path,
+          operation: 'delete',
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      });
+  };
+
+  const describeProgress = (goal: SavingsGoal, progress: GoalProgress) => {
+    const targetDate = parseCalendarDate(goal.targetDate);
+    switch (progress.status) {
+      case 'complete':
+        return 'Goal reached. Nice work!';
+      case 'not-started':
+        return `Save ${formatCurrency(progress.requiredMonthly, currency)} a month to get there on time.`;
+      case 'on-track':
+        return `At this pace you'll get there by ${format(progress.projectedDate!, 'MMM d, yyyy')}.`;
+      case 'behind': {
+        const daysLate = differenceInCalendarDays(progress.projectedDate!, targetDate);
+        return `At this pace you'll get there on ${format(progress.projectedDate!, 'MMM d, yyyy')}, ${daysLate} days late. Save ${formatCurrency(progress.requiredMonthly, currency)} a month to catch up.`;
+      }
+      case 'overdue':
+        return `The target date passed with ${formatCurrency(progress.remaining, currency)} still to go.`;
+    }
+  };
+
+  return (
+    <>
+      <Card className="glassmorphism">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <Target className="h-5 w-5" />
+              Savings Goals
+            </CardTitle>
+            <CardDescription>Savings expenses linked to a goal count toward it.</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" className="gap-2" onClick={() => setIsDialogOpen(true)}>
+            <Plus className="h-4 w-4" />
+            Add goal
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {goals.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No goals yet. Add one to start tracking what you save toward it.</p>
+          ) : (
+            <div className="grid gap-6 md:grid-cols-2">
+              {goals.map((goal) => {
+                const progress = getGoalProgress(goal, getGoalContributions(goal, contributions));
+                const needsAttention = progress.status === 'behind' || progress.status === 'overdue';
+                return (
+                  <div key={goal.id} className="space-y-3 rounded-lg border border-white/10 p-4">
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <div className="font-medium">{goal.name}</div>
+                        <p className="text-xs text-muted-foreground">
+                          By {format(parseCalendarDate(goal.targetDate), 'MMM d, yyyy')}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <Badge variant={needsAttention ? 'destructive' : 'secondary'}>{GOAL_STATUS_LABELS[progress.status]}</Badge>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive hover:text-destructive"
+                          onClick={() => handleDelete(goal)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Delete goal</span>
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="text-sm">
+                      <span className="text-lg font-bold">{formatCurrency(progress.saved, currency)}</span>
+                      <span className="text-muted-foreground"> of {formatCurrency(goal.targetAmount, currency)}</span>
+                    </div>
+                    <Progress
+                      value={progress.percent}
+                      indicatorClassName={cn(needsAttention ? 'bg-destructive' : 'bg-chart-3')}
+                      className="h-2"
+                    />
+                    <p className={cn('flex items-start gap-2 text-xs', needsAttention ? 'text-destructive' : 'text-muted-foreground')}>
+                      {needsAttention && <AlertTriangle className="h-3.5 w-3.5 shrink-0" />}
+                      {describeProgress(goal, progress)}
+                    </p>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <SavingsGoalDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} currency={currency} />
+    </>
+  );
+}
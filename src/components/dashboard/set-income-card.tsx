@@ -3,12 +3,13 @@
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
-import { doc, setDoc } from 'firebase/firestore';
+import { collection, doc, serverTimestamp, Timestamp, writeBatch } from 'firebase/firestore';
 import { useFirestore } from '@/firebase/provider';
 import { useAuth } from '@/firebase/auth-provider';
 import { useState } from 'react';
 import { errorEmitter } from '@/firebase/error-emitter';
 import { FirestorePermissionError } from '@/firebase/errors';
+import { getBudgetPeriod } from '@/lib/budget-period';
 
 import { Button } from '@/components/ui/button';
 import {
@@ -25,11 +26,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui
 import { DollarSign } from 'lucide-react';
 
 const formSchema = z.object({
+  source: z.string().min(1, { message: 'Source is required.' }),
   income: z.coerce.number().positive({ message: 'Income must be a positive number.' }),
 });
 
 export function SetIncomeCard() {
-  const { user } = useAuth();
+  const { user, userData } = useAuth();
   const db = useFirestore();
   const { toast } = useToast();
   const [isLoading, setIsLoading] = useState(false);
@@ -37,6 +39,7 @@ export function SetIncomeCard() {
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
     defaultValues: {
+      source: 'Salary',
       income: undefined,
     },
   });
@@ -45,23 +48,35 @@ export function SetIncomeCard() {
     if (!user) return;
     setIsLoading(true);
 
+    // The first income is recurring and counts from the start of the current period.
     const userDocRef = doc(db, 'users', user.uid);
-    const updatedData = {
-        income: values.income,
-      };
+    const incomeDocRef = doc(collection(userDocRef, 'incomes'));
+    const newIncome = {
+      source: values.source,
+      amount: values.income,
+      currency: userData?.currency || 'USD',
+      date: Timestamp.fromDate(getBudgetPeriod(new Date(), userData?.periodStartDay).start),
+      recurring: true,
+      endDate: null,
+      createdAt: serverTimestamp(),
+    };
 
-    setDoc(userDocRef, updatedData, { merge: true })
+    const batch = writeBatch(db);
+    batch.set(incomeDocRef, newIncome);
+    batch.set(userDocRef, { incomesMigrated: true }, { merge: true });
+
+    batch.commit()
       .then(() => {
         toast({
           title: 'Income Saved!',
-          description: `Your monthly income has been set.`,
+          description: `${values.source} has been added as a recurring income.`,
         });
       })
       .catch((serverError) => {
         const permissionError = new FirestorePermissionError({
-          path: userDocRef.path,
-          operation: 'update',
-          requestResourceData: updatedData,
+          path: incomeDocRef.path,
+          operation: 'create',
+          requestResourceData: newIncome,
         });
         errorEmitter.emit('permission-error', permissionError);
       })
@@ -79,12 +94,25 @@ export function SetIncomeCard() {
                 Welcome to SpendSense!
             </CardTitle>
             <CardDescription>
-                To get started, please set your total monthly income. This will help us create your budget.
+                To get started, add your main monthly income. You can add side income and one-off payments later.
             </CardDescription>
         </CardHeader>
         <CardContent>
             <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                <FormField
+                control={form.control}
+                name="source"
+                render={({ field }) => (
+                    <FormItem>
+                    <FormLabel>Income Source</FormLabel>
+                    <FormControl>
+                        <Input placeholder="e.g., Salary" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                    </FormItem>
+                )}
+                />
                 <FormField
                 control={form.control}
                 name="income"
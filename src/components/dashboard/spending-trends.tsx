@@ -0,0 +1,212 @@
+'use client';
+
+import * as React from 'react';
+import { collection, onSnapshot, orderBy, query, Timestamp, where } from 'firebase/firestore';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { useAuth } from '@/firebase/auth-provider';
+import { useFirebaseAuth, useFirestore } from '@/firebase/provider';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { useFormatCurrency } from '@/hooks/use-format-currency';
+import type { BudgetPeriod, Currency, ExchangeRateTable, Expense, Income } from '@/lib/types';
+import { formatBudgetPeriod, isDateInPeriod } from '@/lib/budget-period';
+import { getExpenseDate } from '@/lib/expenses';
+import { toBaseCurrency } from '@/lib/exchange-rates';
+import { getPeriodIncome } from '@/lib/income';
+import { isTrashed } from '@/lib/trash';
+import { TREND_PERIOD_COUNT, getDailyBurn, getPeriodTrends, getTrendPeriods } from '@/lib/trends';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { Skeleton } from '@/components/ui/skeleton';
+
+const categoryConfig = {
+  Needs: { label: 'Needs', color: 'hsl(var(--chart-1))' },
+  Wants: { label: 'Wants', color: 'hsl(var(--chart-2))' },
+  Savings: { label: 'Savings', color: 'hsl(var(--chart-3))' },
+} satisfies ChartConfig;
+
+const incomeConfig = {
+  income: { label: 'Income', color: 'hsl(var(--chart-3))' },
+  spent: { label: 'Total spent', color: 'hsl(var(--chart-5))' },
+} satisfies ChartConfig;
+
+const burnConfig = {
+  actual: { label: 'Spent so far', color: 'hsl(var(--chart-1))' },
+  ideal: { label: 'Ideal pace', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+interface SpendingTrendsProps {
+  period: BudgetPeriod;
+  incomes: Income[];
+  currency: Currency;
+  exchangeRates?: ExchangeRateTable;
+}
+
+export function SpendingTrends({ period, incomes, currency, exchangeRates }: SpendingTrendsProps) {
+  const formatCurrency = useFormatCurrency();
+  const { user } = useAuth();
+  const db = useFirestore();
+  const auth = useFirebaseAuth();
+  const [expenses, setExpenses] = React.useState<Expense[]>([]);
+  const [loading, setLoading] = React.useState(true);
+
+  const periods = React.useMemo(() => getTrendPeriods(period), [period]);
+
+  React.useEffect(() => {
+    if (!user) {
+      setLoading(false);
+      return;
+    }
+
+    const expensesColRef = collection(db, 'users', user.uid, 'expenses');
+    const expensesQuery = query(
+      expensesColRef,
+      where('date', '>=', Timestamp.fromDate(periods[0].start)),
+      where('date', '<', Timestamp.fromDate(period.end)),
+      orderBy('date')
+    );
+
+    const unsubscribe = onSnapshot(expensesQuery, (snapshot) => {
+      const expensesData = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as Expense[];
+      setExpenses(expensesData.filter(expense => !isTrashed(expense)));
+      setLoading(false);
+    }, (error) => {
+      // Skip the error toast while the user is logging out.
+      if (auth.currentUser) {
+        const permissionError = new FirestorePermissionError({
+          path: expensesColRef.path,
+          operation: 'list',
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      }
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [user, db, auth, periods, period]);
+
+  const baseExpenses = React.useMemo(
+    () => toBaseCurrency(expenses, currency, exchangeRates).items,
+    [expenses, currency, exchangeRates]
+  );
+  const baseIncomes = React.useMemo(
+    () => toBaseCurrency(incomes, currency, exchangeRates).items,
+    [incomes, currency, exchangeRates]
+  );
+  const trends = React.useMemo(() => getPeriodTrends(periods, baseExpenses, baseIncomes), [periods, baseExpenses, baseIncomes]);
+  const burn = React.useMemo(
+    () =>
+      getDailyBurn(
+        period,
+        baseExpenses.filter((expense) => isDateInPeriod(getExpenseDate(expense), period)),
+        getPeriodIncome(baseIncomes, period)
+      ),
+    [period, baseExpenses, baseIncomes]
+  );
+
+  const formatAxis = (value: number) => formatCurrency(value, currency);
+
+  // The stock tooltip prints raw numbers; this keeps its layout but formats amounts.
+  const renderTooltip = (config: ChartConfig) => (
+    <ChartTooltipContent
+      formatter={(value, name, item) => (
+        <div className="flex w-full items-center gap-2">
+          <div className="h-2.5 w-2.5 shrink-0 rounded-[2px]" style={{ backgroundColor: item.color }} />
+          <span className="flex-1 text-muted-foreground">{config[String(name)]?.label || name}</span>
+          <span className="font-mono font-medium tabular-nums text-foreground">
+            {formatCurrency(Number(value), currency)}
+          </span>
+        </div>
+      )}
+    />
+  );
+
+  if (loading) {
+    return (
+      <div className="space-y-8">
+        <Skeleton className="h-80 rounded-lg" />
+        <div className="grid gap-6 lg:grid-cols-2">
+          <Skeleton className="h-80 rounded-lg" />
+          <Skeleton className="h-80 rounded-lg" />
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <Card className="glassmorphism">
+        <CardHeader>
+          <CardTitle>Spending by Category</CardTitle>
+          <CardDescription>Needs, Wants and Savings for the last {TREND_PERIOD_COUNT} periods, in {currency}.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={categoryConfig} className="h-[300px] w-full">
+            <BarChart data={trends}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+              <YAxis tickLine={false} axisLine={false} width={80} tickFormatter={formatAxis} />
+              <ChartTooltip content={renderTooltip(categoryConfig)} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Bar dataKey="Needs" stackId="spent" fill="var(--color-Needs)" />
+              <Bar dataKey="Wants" stackId="spent" fill="var(--color-Wants)" />
+              <Bar dataKey="Savings" stackId="spent" fill="var(--color-Savings)" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-6 lg:grid-cols-2">
+        <Card className="glassmorphism">
+          <CardHeader>
+            <CardTitle>Income vs Spending</CardTitle>
+            <CardDescription>Whether each period stayed within what came in.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={incomeConfig} className="h-[260px] w-full">
+              <LineChart data={trends}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} />
+                <YAxis tickLine={false} axisLine={false} width={80} tickFormatter={formatAxis} />
+                <ChartTooltip content={renderTooltip(incomeConfig)} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="income" type="monotone" stroke="var(--color-income)" strokeWidth={2} dot={false} />
+                <Line dataKey="spent" type="monotone" stroke="var(--color-spent)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card className="glassmorphism">
+          <CardHeader>
+            <CardTitle>Daily Burn</CardTitle>
+            <CardDescription>
+              Cumulative spending in {formatBudgetPeriod(period)} against spending your income evenly.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={burnConfig} className="h-[260px] w-full">
+              <LineChart data={burn}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} tickMargin={8} minTickGap={24} />
+                <YAxis tickLine={false} axisLine={false} width={80} tickFormatter={formatAxis} />
+                <ChartTooltip content={renderTooltip(burnConfig)} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Line dataKey="ideal" type="linear" stroke="var(--color-ideal)" strokeDasharray="4 4" dot={false} />
+                <Line dataKey="actual" type="stepAfter" stroke="var(--color-actual)" strokeWidth={2} dot={false} />
+              </LineChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,277 @@
+'use client';
+
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { addDoc, collection, deleteDoc, doc, serverTimestamp } from 'firebase/firestore';
+import { useFirestore } from '@/firebase/provider';
+import { useAuth } from '@/firebase/auth-provider';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { useSubcategories } from '@/hooks/use-subcategories';
+import { useToast } from '@/hooks/use-toast';
+import type { ExpenseCategory, Subcategory } from '@/lib/types';
+import {
+  DEFAULT_SUBCATEGORY_ICON,
+  SUBCATEGORY_COLORS,
+  SUBCATEGORY_ICONS,
+  getSubcategoryIcon,
+} from '@/lib/subcategories';
+import { cn } from '@/lib/utils';
+
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Trash2 } from 'lucide-react';
+
+const CATEGORIES: ExpenseCategory[] = ['Needs', 'Wants', 'Savings'];
+
+const formSchema = z.object({
+  name: z.string().trim().min(1, { message: 'Name is required.' }).max(30, { message: 'Name must not be longer than 30 characters.' }),
+  parent: z.enum(['Needs', 'Wants', 'Savings']),
+  icon: z.string().min(1),
+  color: z.string().min(1),
+});
+
+export function SubcategoryManager() {
+  const { user } = useAuth();
+  const db = useFirestore();
+  const { toast } = useToast();
+  const { subcategories, loading } = useSubcategories();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: '',
+      parent: 'Needs',
+      icon: DEFAULT_SUBCATEGORY_ICON,
+      color: SUBCATEGORY_COLORS[0],
+    },
+  });
+
+  async function onSubmit(values: z.infer<typeof formSchema>) {
+    if (!user) return;
+
+    const duplicate = subcategories.some(
+      (s) => s.parent === values.parent && s.name.toLowerCase() === values.name.toLowerCase()
+    );
+    if (duplicate) {
+      form.setError('name', { message: `${values.parent} already has a subcategory with this name.` });
+      return;
+    }
+
+    setIsSaving(true);
+    const subcategoriesColRef = collection(db, 'users', user.uid, 'subcategories');
+    const newSubcategory = {
+      ...values,
+      createdAt: serverTimestamp(),
+    };
+
+    addDoc(subcategoriesColRef, newSubcategory)
+      .then(() => {
+        toast({
+          title: 'Subcategory Added',
+          description: `${values.name} is now available under ${values.parent}.`,
+        });
+        form.reset({ ...form.getValues(), name: '' });
+      })
+      .catch((serverError) => {
+        const permissionError = new FirestorePermissionError({
+          path: subcategoriesColRef.path,
+          operation: 'create',
+          requestResourceData: newSubcategory,
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      })
+      .finally(() => {
+        setIsSaving(false);
+      });
+  }
+
+  const handleDelete = (subcategory: Subcategory) => {
+    if (!user) return;
+    const subcategoryDocRef = doc(db, 'users', user.uid, 'subcategories', subcategory.id);
+
+    deleteDoc(subcategoryDocRef)
+      .then(() => {
+        toast({
+          title: 'Subcategory Deleted',
+          description: `${subcategory.name} has been removed. Existing expenses keep their category.`,
+        });
+      })
+      .catch((serverError) => {
+        const permissionError = new FirestorePermissionError({
+          path: subcategoryDocRef.path,
+          operation: 'delete',
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      });
+  };
+
+  return (
+    <Card className="glassmorphism">
+      <CardHeader>
+        <CardTitle>Subcategories</CardTitle>
+        <CardDescription>Break Needs, Wants and Savings down into the things you actually spend on.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {loading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <div className="space-y-4">
+            {CATEGORIES.map((category) => {
+              const children = subcategories.filter((s) => s.parent === category);
+              return (
+                <div key={category}>
+                  <h3 className="text-sm font-medium mb-2">{category}</h3>
+                  {children.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No subcategories yet.</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-2">
+                      {children.map((subcategory) => {
+                        const Icon = getSubcategoryIcon(subcategory.icon);
+                        return (
+                          <div
+                            key={subcategory.id}
+                            className="flex items-center gap-1.5 rounded-full border pl-3 pr-1 py-0.5 text-xs font-semibold"
+                            style={{ borderColor: subcategory.color }}
+                          >
+                            <Icon className="h-3.5 w-3.5" style={{ color: subcategory.color }} />
+                            {subcategory.name}
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 text-destructive hover:text-destructive"
+                              onClick={() => handleDelete(subcategory)}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                              <span className="sr-only">Delete {subcategory.name}</span>
+                            </Button>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 border-t border-white/10 pt-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Groceries" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="parent"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Parent Category</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select a category" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {CATEGORIES.map((category) => (
+                          <SelectItem key={category} value={category}>{category}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="icon"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Icon</FormLabel>
+                  <div className="flex flex-wrap gap-2">
+                    {Object.entries(SUBCATEGORY_ICONS).map(([key, Icon]) => (
+                      <Button
+                        key={key}
+                        type="button"
+                        variant={field.value === key ? 'default' : 'outline'}
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => field.onChange(key)}
+                      >
+                        <Icon className="h-4 w-4" />
+                        <span className="sr-only">{key}</span>
+                      </Button>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="color"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Color</FormLabel>
+                  <div className="flex flex-wrap gap-2">
+                    {SUBCATEGORY_COLORS.map((color) => (
+                      <button
+                        key={color}
+                        type="button"
+                        className={cn(
+                          'h-7 w-7 rounded-full border-2 transition-transform',
+                          field.value === color ? 'border-foreground scale-110' : 'border-transparent'
+                        )}
+                        style={{ backgroundColor: color }}
+                        onClick={() => field.onChange(color)}
+                      >
+                        <span className="sr-only">{color}</span>
+                      </button>
+                    ))}
+                  </div>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={isSaving}>
+              {isSaving ? 'Adding...' : 'Add Subcategory'}
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
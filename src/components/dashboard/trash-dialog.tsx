@@ -0,0 +1,229 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  onSnapshot,
+  orderBy,
+  query,
+  Timestamp,
+  updateDoc,
+  where,
+} from 'firebase/firestore';
+import { differenceInCalendarDays } from 'date-fns';
+import { useAuth } from '@/firebase/auth-provider';
+import { useFirebaseStorage, useFirestore, useFirebaseAuth } from '@/firebase/provider';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { useToast } from '@/hooks/use-toast';
+import type { Currency, Expense } from '@/lib/types';
+import { useFormatCurrency } from '@/hooks/use-format-currency';
+import { getExpenseCurrency } from '@/lib/exchange-rates';
+import { getTrashCutoff, TRASH_RETENTION_DAYS } from '@/lib/trash';
+import { deleteReceiptImage } from './receipt-capture';
+
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Trash2, Undo2 } from 'lucide-react';
+
+interface TrashDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currency: Currency;
+}
+
+export function TrashDialog({ open, onOpenChange, currency }: TrashDialogProps) {
+  const formatCurrency = useFormatCurrency();
+  const { user } = useAuth();
+  const db = useFirestore();
+  const auth = useFirebaseAuth();
+  const storage = useFirebaseStorage();
+  const { toast } = useToast();
+  const [trashedExpenses, setTrashedExpenses] = useState<Expense[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!open || !user) return;
+
+    setLoading(true);
+    const expensesColRef = collection(db, 'users', user.uid, 'expenses');
+    const cutoff = Timestamp.fromDate(getTrashCutoff());
+
+    // Purge anything that has outlived the retention window.
+    getDocs(query(expensesColRef, where('deletedAt', '<', cutoff)))
+      .then((snapshot) =>
+        Promise.all(
+          snapshot.docs.map((expired) => {
+            const { receiptPath } = expired.data() as Expense;
+            return deleteDoc(expired.ref).then(() => receiptPath && deleteReceiptImage(storage, receiptPath));
+          })
+        )
+      )
+      .catch((serverError) => {
+        const permissionError = new FirestorePermissionError({
+          path: expensesColRef.path,
+          operation: 'delete',
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      });
+
+    const trashQuery = query(
+      expensesColRef,
+      where('deletedAt', '>=', cutoff),
+      orderBy('deletedAt', 'desc')
+    );
+
+    const unsubscribe = onSnapshot(trashQuery, (snapshot) => {
+      setTrashedExpenses(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as Expense[]);
+      setLoading(false);
+    }, (error) => {
+      if (auth.currentUser) {
+        const permissionError = new FirestorePermissionError({
+          path: expensesColRef.path,
+          operation: 'list',
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      }
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [open, user, db, auth, storage]);
+
+  const handleRestore = (expense: Expense) => {
+    if (!user) return;
+
+    const expenseDocRef = doc(db, 'users', user.uid, 'expenses', expense.id);
+    const restoreData = { deletedAt: null };
+
+    updateDoc(expenseDocRef, restoreData)
+      .then(() => {
+        toast({
+          title: 'Expense Restored',
+          description: `${expense.name} is back in your records.`,
+        });
+      })
+      .catch((serverError) => {
+        const permissionError = new FirestorePermissionError({
+          path: expenseDocRef.path,
+          operation: 'update',
+          requestResourceData: restoreData,
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      });
+  };
+
+  const handlePurge = (expense: Expense) => {
+    if (!user) return;
+
+    const expenseDocRef = doc(db, 'users', user.uid, 'expenses', expense.id);
+
+    deleteDoc(expenseDocRef)
+      .then(() => {
+        if (expense.receiptPath) deleteReceiptImage(storage, expense.receiptPath);
+        toast({
+          title: 'Expense Permanently Deleted',
+          description: `${expense.name} has been removed for good.`,
+        });
+      })
+      .catch((serverError) => {
+        const permissionError = new FirestorePermissionError({
+          path: expenseDocRef.path,
+          operation: 'delete',
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      });
+  };
+
+  const daysLeft = (expense: Expense) => {
+    const deletedAt = expense.deletedAt?.toDate?.();
+    if (!deletedAt) return TRASH_RETENTION_DAYS;
+    return Math.max(TRASH_RETENTION_DAYS - differenceInCalendarDays(new Date(), deletedAt), 0);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Trash</DialogTitle>
+          <DialogDescription>
+            Deleted expenses are kept for {TRASH_RETENTION_DAYS} days before they are permanently removed.
+          </DialogDescription>
+        </DialogHeader>
+        {loading ? (
+          <div className="space-y-2">
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+            <Skeleton className="h-10 w-full" />
+          </div>
+        ) : (
+          <ScrollArea className="max-h-[400px]">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Expense</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead className="text-right">Expires</TableHead>
+                  <TableHead className="w-[100px] text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {trashedExpenses.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={4} className="h-24 text-center">
+                      Trash is empty.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  trashedExpenses.map((expense) => (
+                    <TableRow key={expense.id}>
+                      <TableCell className="font-medium">{expense.name}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(expense.amount, getExpenseCurrency(expense, currency))}</TableCell>
+                      <TableCell className="text-right text-muted-foreground">{daysLeft(expense)}d</TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex items-center justify-end">
+                          <Button variant="ghost" size="icon" onClick={() => handleRestore(expense)}>
+                            <Undo2 className="h-4 w-4" />
+                            <span className="sr-only">Restore expense</span>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handlePurge(expense)}
+                            className="text-destructive hover:text-destructive"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                            <span className="sr-only">Delete permanently</span>
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,176 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { arrayRemove, arrayUnion, deleteDoc, doc, updateDoc, type UpdateData } from 'firebase/firestore';
+import { format } from 'date-fns';
+import { useFirestore } from '@/firebase/provider';
+import { useAuth } from '@/firebase/auth-provider';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { useToast } from '@/hooks/use-toast';
+import type { RecurringExpense } from '@/lib/types';
+import { useFormatCurrency } from '@/hooks/use-format-currency';
+import { describeSchedule, getUpcomingOccurrences, parseCalendarDate } from '@/lib/recurrence';
+import { cn } from '@/lib/utils';
+import { RecurringExpenseDialog } from './recurring-expense-dialog';
+
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import { CalendarClock, Pause, Play, Plus, SkipForward, Trash2, Undo2 } from 'lucide-react';
+
+const UPCOMING_DAYS = 30;
+
+interface UpcomingBillsCardProps {
+  recurringExpenses: RecurringExpense[];
+  currency: string;
+}
+
+export function UpcomingBillsCard({ recurringExpenses, currency }: UpcomingBillsCardProps) {
+  const formatCurrency = useFormatCurrency();
+  const { user } = useAuth();
+  const db = useFirestore();
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+
+  const upcoming = useMemo(
+    () => getUpcomingOccurrences(recurringExpenses, new Date(), UPCOMING_DAYS),
+    [recurringExpenses]
+  );
+
+  const updateRecurring = (recurring: RecurringExpense, data: UpdateData<RecurringExpense>, successMessage: string) => {
+    if (!user) return;
+    const recurringDocRef = doc(db, 'users', user.uid, 'recurringExpenses', recurring.id);
+
+    updateDoc(recurringDocRef, data)
+      .then(() => {
+        toast({ title: successMessage, description: recurring.name });
+      })
+      .catch((serverError) => {
+        const permissionError = new FirestorePermissionError({
+          path: recurringDocRef.path,
+          operation: 'update',
+          requestResourceData: data,
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      });
+  };
+
+  const handleToggleSkip = (recurring: RecurringExpense, date: string, skipped: boolean) => {
+    updateRecurring(
+      recurring,
+      { skippedDates: skipped ? arrayRemove(date) : arrayUnion(date) },
+      skipped ? 'Occurrence Restored' : `Skipped ${format(parseCalendarDate(date), 'MMM d')}`
+    );
+  };
+
+  const handleTogglePause = (recurring: RecurringExpense) => {
+    updateRecurring(recurring, { paused: !recurring.paused }, recurring.paused ? 'Recurring Expense Resumed' : 'Recurring Expense Paused');
+  };
+
+  const handleDelete = (recurring: RecurringExpense) => {
+    if (!user) return;
+    const recurringDocRef = doc(db, 'users', user.uid, 'recurringExpenses', recurring.id);
+
+    deleteDoc(recurringDocRef)
+      .then(() => {
+        toast({
+          title: 'Recurring Expense Deleted',
+          description: `${recurring.name} will no longer be added. Past expenses are kept.`,
+        });
+      })
+      .catch((serverError) => {
+        const permissionError = new FirestorePermissionError({
+          path: recurringDocRef.path,
+          operation: 'delete',
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      });
+  };
+
+  return (
+    <>
+      <Card className="glassmorphism">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Upcoming Bills
+            </CardTitle>
+            <CardDescription>Recurring expenses due in the next {UPCOMING_DAYS} days.</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" className="gap-2" onClick={() => setIsDialogOpen(true)}>
+            <Plus className="h-4 w-4" />
+            Add recurring
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {upcoming.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing due in the next {UPCOMING_DAYS} days.</p>
+          ) : (
+            <ul className="space-y-2">
+              {upcoming.map(({ recurring, date, skipped }) => (
+                <li key={`${recurring.id}-${date}`} className="flex items-center justify-between gap-4 text-sm">
+                  <div className={cn('flex items-center gap-3', skipped && 'text-muted-foreground line-through')}>
+                    <span className="w-14 font-medium">{format(parseCalendarDate(date), 'MMM d')}</span>
+                    <span>{recurring.name}</span>
+                    <Badge variant="outline">{recurring.category}</Badge>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className={cn('font-medium', skipped && 'text-muted-foreground line-through')}>
+                      {formatCurrency(recurring.amount, recurring.currency || currency)}
+                    </span>
+                    <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleToggleSkip(recurring, date, skipped)}>
+                      {skipped ? <Undo2 className="h-4 w-4" /> : <SkipForward className="h-4 w-4" />}
+                      <span className="sr-only">{skipped ? 'Restore occurrence' : 'Skip occurrence'}</span>
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {recurringExpenses.length > 0 && (
+            <>
+              <Separator />
+              <ul className="space-y-2">
+                {recurringExpenses.map((recurring) => (
+                  <li key={recurring.id} className="flex items-center justify-between gap-4 text-sm">
+                    <div>
+                      <div className="font-medium">
+                        {recurring.name}
+                        {recurring.paused && <Badge variant="secondary" className="ml-2">Paused</Badge>}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {describeSchedule(recurring.schedule)} · {formatCurrency(recurring.amount, recurring.currency || currency)}
+                        {recurring.endDate && ` · until ${format(parseCalendarDate(recurring.endDate), 'MMM d, yyyy')}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => handleTogglePause(recurring)}>
+                        {recurring.paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                        <span className="sr-only">{recurring.paused ? 'Resume' : 'Pause'}</span>
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        onClick={() => handleDelete(recurring)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                        <span className="sr-only">Delete recurring expense</span>
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <RecurringExpenseDialog open={isDialogOpen} onOpenChange={setIsDialogOpen} currency={currency} />
+    </>
+  );
+}
@@ -56,7 +56,7 @@ export function LiveBackground() {
   }, []);
 
   return (
-    <div className="fixed inset-0 -z-10 h-full w-full overflow-hidden bg-gradient-to-br from-slate-950 to-gray-900 pointer-events-none">
+    <div className="print:hidden fixed inset-0 -z-10 h-full w-full overflow-hidden bg-gradient-to-br from-slate-950 to-gray-900 pointer-events-none">
       {icons.map(({ id, Icon, className, style }) => (
         <Icon key={id} className={className} style={style} strokeWidth={1} />
       ))}
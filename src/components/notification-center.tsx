@@ -0,0 +1,121 @@
+'use client';
+
+import { doc, updateDoc, writeBatch } from 'firebase/firestore';
+import { formatDistanceToNow } from 'date-fns';
+import { useAuth } from '@/firebase/auth-provider';
+import { useFirestore } from '@/firebase/provider';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { useNotifications } from '@/hooks/use-notifications';
+import type { AppNotification } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Bell, CheckCheck } from 'lucide-react';
+
+export function NotificationCenter() {
+  const { user } = useAuth();
+  const db = useFirestore();
+  const { notifications } = useNotifications();
+
+  if (!user) {
+    return null;
+  }
+
+  const unread = notifications.filter((notification) => !notification.read);
+
+  const handleMarkRead = (notification: AppNotification) => {
+    if (notification.read) return;
+    const notificationDocRef = doc(db, 'users', user.uid, 'notifications', notification.id);
+
+    updateDoc(notificationDocRef, { read: true }).catch((serverError) => {
+      const permissionError = new FirestorePermissionError({
+        path: notificationDocRef.path,
+        operation: 'update',
+        requestResourceData: { read: true },
+      });
+      errorEmitter.emit('permission-error', permissionError);
+    });
+  };
+
+  const handleMarkAllRead = () => {
+    const batch = writeBatch(db);
+    unread.forEach((notification) => {
+      batch.update(doc(db, 'users', user.uid, 'notifications', notification.id), { read: true });
+    });
+
+    batch.commit().catch((serverError) => {
+      const permissionError = new FirestorePermissionError({
+        path: `users/${user.uid}/notifications`,
+        operation: 'update',
+        requestResourceData: { read: true },
+      });
+      errorEmitter.emit('permission-error', permissionError);
+    });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative h-8 w-8 rounded-full">
+          <Bell className="h-4 w-4" />
+          {unread.length > 0 && (
+            <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-bold text-destructive-foreground">
+              {unread.length > 9 ? '9+' : unread.length}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="end">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <p className="text-sm font-medium">Notifications</p>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1 text-xs"
+            onClick={handleMarkAllRead}
+            disabled={unread.length === 0}
+          >
+            <CheckCheck className="h-3.5 w-3.5" />
+            Mark all read
+          </Button>
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-muted-foreground">You're all caught up.</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            <ul className="divide-y">
+              {notifications.map((notification) => (
+                <li key={notification.id}>
+                  <button
+                    type="button"
+                    className={cn(
+                      'flex w-full gap-3 px-4 py-3 text-left text-sm hover:bg-accent/50',
+                      notification.read && 'text-muted-foreground'
+                    )}
+                    onClick={() => handleMarkRead(notification)}
+                  >
+                    <span
+                      className={cn('mt-1.5 h-2 w-2 shrink-0 rounded-full', notification.read ? 'bg-transparent' : 'bg-primary')}
+                    />
+                    <span className="space-y-1">
+                      <span className={cn('block', !notification.read && 'font-medium')}>{notification.title}</span>
+                      <span className="block text-xs text-muted-foreground">{notification.message}</span>
+                      {notification.createdAt && (
+                        <span className="block text-xs text-muted-foreground">
+                          {formatDistanceToNow(notification.createdAt.toDate(), { addSuffix: true })}
+                        </span>
+                      )}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
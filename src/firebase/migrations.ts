@@ -0,0 +1,106 @@
+'use client';
+
+import { collection, doc, getDocs, serverTimestamp, Timestamp, writeBatch, type Firestore } from 'firebase/firestore';
+import type { Currency } from '@/lib/types';
+
+// Firestore caps a batch at 500 writes.
+const BATCH_SIZE = 450;
+
+/**
+ * Copies `createdAt` into `date` for expenses recorded before transaction
+ * dates existed, so period queries on `date` still find them. Marks the user
+ * document once done so it only runs once per account.
+ */
+export async function backfillExpenseDates(db: Firestore, uid: string) {
+  const userDocRef = doc(db, 'users', uid);
+  const expensesColRef = collection(userDocRef, 'expenses');
+  const snapshot = await getDocs(expensesColRef);
+
+  const missing = snapshot.docs.filter((expense) => !expense.data().date && expense.data().createdAt);
+
+  for (let i = 0; i < missing.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    missing.slice(i, i + BATCH_SIZE).forEach((expense) => {
+      batch.update(expense.ref, { date: expense.data().createdAt });
+    });
+    await batch.commit();
+  }
+
+  const batch = writeBatch(db);
+  batch.set(userDocRef, { expenseDatesBackfilled: true }, { merge: true });
+  await batch.commit();
+}
+
+/**
+ * Turns the old single `income` field into a recurring income entry that
+ * counts toward every period, as the field did. The fixed document ID keeps
+ * a repeated run from adding it twice.
+ */
+export async function migrateLegacyIncome(db: Firestore, uid: string, income: number, currency: Currency) {
+  const userDocRef = doc(db, 'users', uid);
+  const batch = writeBatch(db);
+
+  if (income > 0) {
+    batch.set(doc(userDocRef, 'incomes', 'legacy-income'), {
+      source: 'Monthly income',
+      amount: income,
+      currency,
+      date: Timestamp.fromMillis(0),
+      recurring: true,
+      endDate: null,
+      createdAt: serverTimestamp(),
+    });
+  }
+  batch.set(userDocRef, { incomesMigrated: true }, { merge: true });
+  await batch.commit();
+}
+
+/**
+ * Stamps the current base currency on expenses recorded before expenses
+ * carried their own, so a later change of base currency converts them
+ * instead of relabelling them.
+ */
+export async function backfillExpenseCurrencies(db: Firestore, uid: string, currency: Currency) {
+  const userDocRef = doc(db, 'users', uid);
+  const expensesColRef = collection(userDocRef, 'expenses');
+  const snapshot = await getDocs(expensesColRef);
+
+  const missing = snapshot.docs.filter((expense) => !expense.data().currency);
+
+  for (let i = 0; i < missing.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    missing.slice(i, i + BATCH_SIZE).forEach((expense) => {
+      batch.update(expense.ref, { currency });
+    });
+    await batch.commit();
+  }
+
+  const batch = writeBatch(db);
+  batch.set(userDocRef, { expenseCurrenciesBackfilled: true }, { merge: true });
+  await batch.commit();
+}
+
+/**
+ * Does the same for incomes, savings goals and recurring expenses, so their
+ * amounts are converted like expenses' when the base currency changes.
+ */
+export async function backfillAmountCurrencies(db: Firestore, uid: string, currency: Currency) {
+  const userDocRef = doc(db, 'users', uid);
+  const snapshots = await Promise.all(
+    ['incomes', 'savingsGoals', 'recurringExpenses'].map((name) => getDocs(collection(userDocRef, name)))
+  );
+
+  const missing = snapshots.flatMap((snapshot) => snapshot.docs).filter((item) => !item.data().currency);
+
+  for (let i = 0; i < missing.length; i += BATCH_SIZE) {
+    const batch = writeBatch(db);
+    missing.slice(i, i + BATCH_SIZE).forEach((item) => {
+      batch.update(item.ref, { currency });
+    });
+    await batch.commit();
+  }
+
+  const batch = writeBatch(db);
+  batch.set(userDocRef, { amountCurrenciesBackfilled: true }, { merge: true });
+  await batch.commit();
+}
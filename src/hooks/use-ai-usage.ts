@@ -0,0 +1,15 @@
+'use client';
+
+import { useMemo } from 'react';
+import { documentId, where } from 'firebase/firestore';
+import { getUsageMonth } from '@/lib/ai-usage';
+import type { AiUsage } from '@/lib/types';
+import { useUserCollection } from './use-user-collection';
+
+// This month's AI usage; null until the user's first AI request of the month.
+export function useAiUsage() {
+  const month = getUsageMonth(new Date());
+  const thisMonth = useMemo(() => where(documentId(), '==', month), [month]);
+  const { items, loading } = useUserCollection<AiUsage>('aiUsage', thisMonth);
+  return { usage: items[0] ?? null, loading };
+}
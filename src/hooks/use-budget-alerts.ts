@@ -0,0 +1,78 @@
+'use client';
+
+import { useEffect, useMemo, useRef } from 'react';
+import { doc, getDoc, serverTimestamp, setDoc } from 'firebase/firestore';
+import { useAuth } from '@/firebase/auth-provider';
+import { useFirestore } from '@/firebase/provider';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { useToast } from '@/hooks/use-toast';
+import { useFormatCurrency } from '@/hooks/use-format-currency';
+import { describeBudgetAlert, getBudgetAlerts } from '@/lib/alerts';
+import type { BudgetSummary } from '@/lib/budget';
+import type { AlertThresholds, BudgetPeriod } from '@/lib/types';
+
+interface UseBudgetAlertsOptions {
+  summary: BudgetSummary;
+  period: BudgetPeriod;
+  thresholds: AlertThresholds;
+  currency: string;
+  // Only evaluate once the period's expenses and income have loaded.
+  enabled: boolean;
+}
+
+/**
+ * Checks the period's spending against the alert thresholds every time the
+ * live expense snapshot changes, so every write path (the forms, CSV import,
+ * recurring expenses) is covered. Each crossing is stored once as a
+ * notification; crossings that happen after the dashboard loaded also toast.
+ */
+export function useBudgetAlerts({ summary, period, thresholds, currency, enabled }: UseBudgetAlertsOptions) {
+  const { user } = useAuth();
+  const db = useFirestore();
+  const { toast } = useToast();
+  const formatCurrency = useFormatCurrency();
+  // Alert IDs handled this session; null until the first evaluation.
+  const handledRef = useRef<Set<string> | null>(null);
+
+  const alerts = useMemo(() => getBudgetAlerts(summary, thresholds, period), [summary, thresholds, period]);
+
+  useEffect(() => {
+    if (!user || !enabled) return;
+
+    const handled = handledRef.current;
+    const newAlerts = alerts.filter((alert) => !handled?.has(alert.id));
+    handledRef.current = new Set([...(handled ?? []), ...newAlerts.map((alert) => alert.id)]);
+
+    newAlerts.forEach((alert) => {
+      const { title, message } = describeBudgetAlert(alert, (amount) => formatCurrency(amount, currency));
+      if (handled) {
+        toast({ variant: alert.threshold >= 100 ? 'destructive' : 'default', title, description: message });
+      }
+
+      const notificationDocRef = doc(db, 'users', user.uid, 'notifications', alert.id);
+      const notification = {
+        type: 'budget-alert',
+        title,
+        message,
+        category: alert.category,
+        threshold: alert.threshold,
+        periodStart: alert.periodStart,
+        read: false,
+        createdAt: serverTimestamp(),
+      };
+
+      // Don't overwrite an alert recorded earlier, or it would lose its read state.
+      getDoc(notificationDocRef)
+        .then((snapshot) => (snapshot.exists() ? undefined : setDoc(notificationDocRef, notification)))
+        .catch((serverError) => {
+          const permissionError = new FirestorePermissionError({
+            path: notificationDocRef.path,
+            operation: 'create',
+            requestResourceData: notification,
+          });
+          errorEmitter.emit('permission-error', permissionError);
+        });
+    });
+  }, [alerts, enabled, user, db, toast, formatCurrency, currency]);
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { doc, serverTimestamp, setDoc, type Firestore } from 'firebase/firestore';
+import { useAuth } from '@/firebase/auth-provider';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+import { getCorrectionId, MIN_SUGGESTION_NAME_LENGTH, SUGGESTION_DEBOUNCE_MS } from '@/lib/categorization';
+import type { CategorySuggestion, ExpenseCategory } from '@/lib/types';
+
+interface UseCategorySuggestionOptions {
+  name: string;
+  amount?: number;
+  enabled: boolean;
+}
+
+// Suggestions already fetched this session, by user and normalised name, so
+// retyping a name or adding the same expense again doesn't ask the model twice.
+const suggestionCache = new Map<string, CategorySuggestion>();
+
+function getCacheKey(uid: string, correctionId: string) {
+  return `${uid}/${correctionId}`;
+}
+
+/**
+ * Asks for a category suggestion once the user pauses typing an expense name.
+ * Suggestions are a convenience, so failures just leave the form as it is.
+ */
+export function useCategorySuggestion({ name, amount, enabled }: UseCategorySuggestionOptions) {
+  const { user } = useAuth();
+  const [suggestion, setSuggestion] = useState<CategorySuggestion | null>(null);
+  const [loading, setLoading] = useState(false);
+  const trimmedName = name.trim();
+  const validAmount = amount && amount > 0 ? amount : undefined;
+
+  useEffect(() => {
+    setSuggestion(null);
+    if (!enabled || !user || trimmedName.length < MIN_SUGGESTION_NAME_LENGTH) {
+      setLoading(false);
+      return;
+    }
+
+    const correctionId = getCorrectionId(trimmedName);
+    const cached = correctionId ? suggestionCache.get(getCacheKey(user.uid, correctionId)) : undefined;
+    if (cached) {
+      setSuggestion(cached);
+      setLoading(false);
+      return;
+    }
+
+    const abortController = new AbortController();
+    const timeout = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const token = await user.getIdToken();
+        const response = await fetch('/api/categorize-expense', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${token}`,
+          },
+          body: JSON.stringify({ name: trimmedName, amount: validAmount }),
+          signal: abortController.signal,
+        });
+        if (response.ok) {
+          const result: CategorySuggestion = await response.json();
+          if (correctionId) suggestionCache.set(getCacheKey(user.uid, correctionId), result);
+          setSuggestion(result);
+        }
+      } catch (error) {
+        if (!abortController.signal.aborted) console.error('Error fetching category suggestion:', error);
+      } finally {
+        if (!abortController.signal.aborted) setLoading(false);
+      }
+    }, SUGGESTION_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timeout);
+      abortController.abort();
+    };
+  }, [trimmedName, validAmount, enabled, user]);
+
+  return { suggestion, loading };
+}
+
+/**
+ * Remembers how the user filed an expense name, so the next suggestion for it
+ * follows their choice and similar names are suggested the same way.
+ */
+export function recordCategoryCorrection(
+  db: Firestore,
+  uid: string,
+  name: string,
+  category: ExpenseCategory,
+  subcategoryId: string | null
+) {
+  const correctionId = getCorrectionId(name);
+  if (!correctionId) return;
+  // The next suggestion for this name should follow the correction.
+  suggestionCache.delete(getCacheKey(uid, correctionId));
+
+  const correctionDocRef = doc(db, 'users', uid, 'categoryCorrections', correctionId);
+  const correction = { name: name.trim(), category, subcategoryId, updatedAt: serverTimestamp() };
+
+  setDoc(correctionDocRef, correction).catch((serverError) => {
+    const permissionError = new FirestorePermissionError({
+      path: correctionDocRef.path,
+      operation: 'update',
+      requestResourceData: correction,
+    });
+    errorEmitter.emit('permission-error', permissionError);
+  });
+}
@@ -0,0 +1,13 @@
+'use client';
+
+import { orderBy } from 'firebase/firestore';
+import type { Conversation } from '@/lib/types';
+import { useUserCollection } from './use-user-collection';
+
+const BY_UPDATED = orderBy('updatedAt', 'desc');
+
+// Most recently active first.
+export function useConversations() {
+  const { items: conversations, loading } = useUserCollection<Conversation>('conversations', BY_UPDATED);
+  return { conversations, loading };
+}
@@ -0,0 +1,15 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useAuth } from '@/firebase/auth-provider';
+import { DEFAULT_LOCALE, formatCurrency } from '@/lib/currency';
+
+// formatCurrency bound to the signed-in user's number-format locale.
+export function useFormatCurrency() {
+  const { userData } = useAuth();
+  const locale = userData?.locale || DEFAULT_LOCALE;
+  return useCallback(
+    (amount: number, currency?: string) => formatCurrency(amount, currency, locale),
+    [locale]
+  );
+}
@@ -0,0 +1,16 @@
+'use client';
+
+import { useMemo } from 'react';
+import { where } from 'firebase/firestore';
+import type { Expense } from '@/lib/types';
+import { isTrashed } from '@/lib/trash';
+import { useUserCollection } from './use-user-collection';
+
+const LINKED_TO_GOAL = where('goalId', '!=', null);
+
+// Every expense linked to a savings goal, across all periods.
+export function useGoalContributions() {
+  const { items: expenses, loading } = useUserCollection<Expense>('expenses', LINKED_TO_GOAL);
+  const contributions = useMemo(() => expenses.filter(expense => !isTrashed(expense)), [expenses]);
+  return { contributions, loading };
+}
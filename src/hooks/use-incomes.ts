@@ -0,0 +1,12 @@
+'use client';
+
+import { orderBy } from 'firebase/firestore';
+import type { Income } from '@/lib/types';
+import { useUserCollection } from './use-user-collection';
+
+const BY_DATE = orderBy('date', 'desc');
+
+export function useIncomes() {
+  const { items: incomes, loading } = useUserCollection<Income>('incomes', BY_DATE);
+  return { incomes, loading };
+}
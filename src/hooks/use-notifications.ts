@@ -0,0 +1,15 @@
+'use client';
+
+import { limit, orderBy } from 'firebase/firestore';
+import type { AppNotification } from '@/lib/types';
+import { useUserCollection } from './use-user-collection';
+
+const NOTIFICATION_LIMIT = 50;
+
+const NEWEST_FIRST = orderBy('createdAt', 'desc');
+const LATEST = limit(NOTIFICATION_LIMIT);
+
+export function useNotifications() {
+  const { items: notifications, loading } = useUserCollection<AppNotification>('notifications', NEWEST_FIRST, LATEST);
+  return { notifications, loading };
+}
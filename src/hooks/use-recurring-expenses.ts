@@ -0,0 +1,12 @@
+'use client';
+
+import { orderBy } from 'firebase/firestore';
+import type { RecurringExpense } from '@/lib/types';
+import { useUserCollection } from './use-user-collection';
+
+const BY_NAME = orderBy('name');
+
+export function useRecurringExpenses() {
+  const { items: recurringExpenses, loading } = useUserCollection<RecurringExpense>('recurringExpenses', BY_NAME);
+  return { recurringExpenses, loading };
+}
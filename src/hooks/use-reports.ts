@@ -0,0 +1,13 @@
+'use client';
+
+import { orderBy } from 'firebase/firestore';
+import type { MonthlyReport } from '@/lib/types';
+import { useUserCollection } from './use-user-collection';
+
+const BY_PERIOD = orderBy('periodStart', 'desc');
+
+// The user's monthly reports, most recent period first.
+export function useReports() {
+  const { items: reports, loading } = useUserCollection<MonthlyReport>('reports', BY_PERIOD);
+  return { reports, loading };
+}
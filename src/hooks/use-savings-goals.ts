@@ -0,0 +1,12 @@
+'use client';
+
+import { orderBy } from 'firebase/firestore';
+import type { SavingsGoal } from '@/lib/types';
+import { useUserCollection } from './use-user-collection';
+
+const BY_TARGET_DATE = orderBy('targetDate');
+
+export function useSavingsGoals() {
+  const { items: savingsGoals, loading } = useUserCollection<SavingsGoal>('savingsGoals', BY_TARGET_DATE);
+  return { savingsGoals, loading };
+}
@@ -0,0 +1,12 @@
+'use client';
+
+import { orderBy } from 'firebase/firestore';
+import type { Subcategory } from '@/lib/types';
+import { useUserCollection } from './use-user-collection';
+
+const BY_NAME = orderBy('name');
+
+export function useSubcategories() {
+  const { items: subcategories, loading } = useUserCollection<Subcategory>('subcategories', BY_NAME);
+  return { subcategories, loading };
+}
@@ -0,0 +1,54 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { collection, onSnapshot, query, type QueryConstraint } from 'firebase/firestore';
+import { useAuth } from '@/firebase/auth-provider';
+import { useFirebaseAuth, useFirestore } from '@/firebase/provider';
+import { errorEmitter } from '@/firebase/error-emitter';
+import { FirestorePermissionError } from '@/firebase/errors';
+
+/**
+ * Listens to a subcollection of the signed-in user's document, e.g.
+ * `useUserCollection<Income>('incomes', orderBy('date', 'desc'))`. Items are
+ * cleared on logout, and loading starts over whenever the user changes.
+ *
+ * The listener is rebuilt when a constraint changes identity, so create them
+ * at module level or memoize them.
+ */
+export function useUserCollection<T extends { id: string }>(path: string, ...constraints: QueryConstraint[]) {
+  const { user } = useAuth();
+  const db = useFirestore();
+  const auth = useFirebaseAuth();
+  const [items, setItems] = useState<T[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!user) {
+      setItems([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const colRef = collection(db, 'users', user.uid, path);
+
+    const unsubscribe = onSnapshot(query(colRef, ...constraints), (snapshot) => {
+      setItems(snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as T[]);
+      setLoading(false);
+    }, (error) => {
+      // Skip the error toast while the user is logging out.
+      if (auth.currentUser) {
+        const permissionError = new FirestorePermissionError({
+          path: colRef.path,
+          operation: 'list',
+        });
+        errorEmitter.emit('permission-error', permissionError);
+      }
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [user, db, auth, path, ...constraints]);
+
+  return { items, loading };
+}
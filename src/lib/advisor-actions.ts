@@ -0,0 +1,49 @@
+import { z } from 'zod';
+import type { AdvisorAction } from './types';
+import { allocationTotal } from './allocation';
+import { isCalendarDate } from './recurrence';
+
+export const MAX_ADVISOR_ACTIONS = 5;
+export const MAX_RECATEGORIZE_EXPENSES = 50;
+
+const CategorySchema = z.enum(['Needs', 'Wants', 'Savings']);
+const PercentageSchema = z.number().int().min(0).max(100);
+
+// Each action type only keeps the fields it uses, so nothing undefined reaches Firestore.
+const AdvisorActionSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('addExpense'),
+    summary: z.string().min(1),
+    expense: z.object({
+      name: z.string().trim().min(1).max(100),
+      amount: z.number().positive(),
+      category: CategorySchema,
+      date: z.string().refine(isCalendarDate).optional(),
+    }),
+  }),
+  z.object({
+    type: z.literal('recategorizeExpenses'),
+    summary: z.string().min(1),
+    expenseIds: z.array(z.string().min(1)).min(1).max(MAX_RECATEGORIZE_EXPENSES),
+    category: CategorySchema,
+  }),
+  z.object({
+    type: z.literal('updateAllocation'),
+    summary: z.string().min(1),
+    allocation: z
+      .object({ needs: PercentageSchema, wants: PercentageSchema, savings: PercentageSchema })
+      .refine((allocation) => allocationTotal(allocation) === 100),
+  }),
+]);
+
+/**
+ * Keeps the model's proposals that are well-formed and drops the rest, so a
+ * bad proposal can never be applied. Every kept action starts out pending.
+ */
+export function parseAdvisorActions(proposals: unknown[] | undefined): AdvisorAction[] {
+  return (proposals || [])
+    .map((proposal) => AdvisorActionSchema.safeParse(proposal))
+    .filter((result) => result.success)
+    .map((result) => ({ ...result.data, status: 'pending' as const }))
+    .slice(0, MAX_ADVISOR_ACTIONS);
+}
@@ -0,0 +1,37 @@
+import type { AdvisorAction } from './types';
+
+// The advisor API streams newline-delimited JSON events so errors can still be reported mid-answer.
+export type AdvisorStreamEvent =
+  | { type: 'conversation'; id: string }
+  | { type: 'chunk'; text: string }
+  | { type: 'done'; answer: string; actions: AdvisorAction[] }
+  | { type: 'error'; error: string };
+
+export function encodeAdvisorEvent(event: AdvisorStreamEvent) {
+  return `${JSON.stringify(event)}\n`;
+}
+
+// Yields each event from a streamed response body as soon as its line is complete.
+export async function* readAdvisorStream(body: ReadableStream<Uint8Array>): AsyncGenerator<AdvisorStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        if (line.trim()) yield JSON.parse(line) as AdvisorStreamEvent;
+      }
+
+      if (done) break;
+    }
+    if (buffer.trim()) yield JSON.parse(buffer) as AdvisorStreamEvent;
+  } finally {
+    reader.releaseLock();
+  }
+}
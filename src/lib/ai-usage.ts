@@ -0,0 +1,37 @@
+import type { AiFeature, AiUsageTotals } from './types';
+
+export const AI_FEATURE_LABELS: Record<AiFeature, string> = {
+  advisor: 'AI Advisor',
+  categorize: 'Category suggestions',
+  parseExpense: 'Quick add',
+  receipt: 'Receipt scanning',
+  report: 'Monthly reports',
+};
+
+// Requests per user across the AI features, in a sliding window.
+export const RATE_LIMIT_REQUESTS = 20;
+export const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+// Category suggestions fire as the user types, so they get a window of their
+// own rather than using up the advisor's.
+export const SUGGESTION_RATE_LIMIT_REQUESTS = 30;
+// Tokens per user per UTC day, input and output together.
+export const DAILY_TOKEN_QUOTA = 300_000;
+
+export const MAX_ADVISOR_QUERY_LENGTH = 1000;
+
+// Gemini 2.5 Flash list prices in USD per million tokens; the estimate ignores free tiers.
+const INPUT_TOKEN_PRICE = 0.3;
+const OUTPUT_TOKEN_PRICE = 2.5;
+
+export function estimateCost({ inputTokens, outputTokens }: Pick<AiUsageTotals, 'inputTokens' | 'outputTokens'>) {
+  return (inputTokens * INPUT_TOKEN_PRICE + outputTokens * OUTPUT_TOKEN_PRICE) / 1_000_000;
+}
+
+// Usage is bucketed by UTC so the server and every client agree on the month and day.
+export function getUsageMonth(date: Date) {
+  return date.toISOString().slice(0, 7);
+}
+
+export function getUsageDay(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,83 @@
+import type { AlertThresholds, BudgetPeriod, ExpenseCategory } from './types';
+import type { BudgetSummary } from './budget';
+import { EXPENSE_CATEGORIES } from './budget';
+import { toCalendarDate } from './recurrence';
+
+// Savings going past its allocation is good news, so it has no alerts unless the user adds some.
+export const DEFAULT_ALERT_THRESHOLDS: AlertThresholds = {
+  Needs: [80, 100],
+  Wants: [80, 100],
+  Savings: [],
+};
+
+export const MAX_ALERT_THRESHOLD = 500;
+
+export interface BudgetAlert {
+  // Stable per period, category and threshold, so each crossing is only recorded once.
+  id: string;
+  category: ExpenseCategory;
+  threshold: number;
+  periodStart: string;
+  spent: number;
+  allocated: number;
+  percentUsed: number;
+}
+
+export function normalizeThresholds(thresholds: number[]) {
+  return Array.from(new Set(thresholds)).sort((a, b) => a - b);
+}
+
+// Falls back to the defaults for any category the user hasn't configured.
+export function resolveAlertThresholds(thresholds?: Partial<AlertThresholds> | null): AlertThresholds {
+  return Object.fromEntries(
+    EXPENSE_CATEGORIES.map((category) => [
+      category,
+      normalizeThresholds(thresholds?.[category] ?? DEFAULT_ALERT_THRESHOLDS[category]),
+    ])
+  ) as AlertThresholds;
+}
+
+// Parses "80, 100" into [80, 100]. Blank means no alerts; anything unreadable returns null.
+export function parseThresholdList(text: string): number[] | null {
+  const parts = text.split(',').map((part) => part.trim()).filter(Boolean);
+  const values = parts.map(Number);
+  if (values.some((value) => !Number.isInteger(value) || value < 1 || value > MAX_ALERT_THRESHOLD)) {
+    return null;
+  }
+  return normalizeThresholds(values);
+}
+
+export function formatThresholdList(thresholds: number[]) {
+  return thresholds.join(', ');
+}
+
+export function getBudgetAlertId(period: BudgetPeriod, category: ExpenseCategory, threshold: number) {
+  return `${toCalendarDate(period.start)}-${category}-${threshold}`;
+}
+
+// Every threshold the period's spending has reached. Categories with nothing allocated never alert.
+export function getBudgetAlerts(summary: BudgetSummary, thresholds: AlertThresholds, period: BudgetPeriod): BudgetAlert[] {
+  return EXPENSE_CATEGORIES.flatMap((category) => {
+    const { allocated, spent } = summary.categories[category];
+    if (allocated <= 0) return [];
+    const percentUsed = (spent / allocated) * 100;
+    return thresholds[category]
+      .filter((threshold) => percentUsed >= threshold)
+      .map((threshold) => ({
+        id: getBudgetAlertId(period, category, threshold),
+        category,
+        threshold,
+        periodStart: toCalendarDate(period.start),
+        spent,
+        allocated,
+        percentUsed,
+      }));
+  });
+}
+
+export function describeBudgetAlert(alert: BudgetAlert, formatAmount: (amount: number) => string) {
+  const title =
+    alert.threshold === 100 ? `${alert.category} budget used up` : `${alert.category} budget at ${alert.threshold}%`;
+  const message = `You've spent ${formatAmount(alert.spent)} of your ${formatAmount(alert.allocated)} ${alert.category} budget (${Math.round(alert.percentUsed)}%) this period.`;
+  return { title, message };
+}
@@ -0,0 +1,56 @@
+import type { AllocationPresetId, AllocationProfile, ExpenseCategory } from './types';
+
+export const ALLOCATION_PRESETS: Record<Exclude<AllocationPresetId, 'custom'>, AllocationProfile> = {
+  '50-30-20': { preset: '50-30-20', needs: 50, wants: 30, savings: 20 },
+  '70-20-10': { preset: '70-20-10', needs: 70, wants: 20, savings: 10 },
+  '60-20-20': { preset: '60-20-20', needs: 60, wants: 20, savings: 20 },
+};
+
+export const DEFAULT_ALLOCATION = ALLOCATION_PRESETS['50-30-20'];
+
+export const ALLOCATION_PRESET_LABELS: Record<AllocationPresetId, string> = {
+  '50-30-20': '50 / 30 / 20 (Balanced)',
+  '70-20-10': '70 / 20 / 10 (High cost of living)',
+  '60-20-20': '60 / 20 / 20 (Savings focused)',
+  custom: 'Custom',
+};
+
+export function allocationTotal(allocation: Pick<AllocationProfile, 'needs' | 'wants' | 'savings'>) {
+  return allocation.needs + allocation.wants + allocation.savings;
+}
+
+export function isValidAllocation(allocation?: Partial<AllocationProfile> | null): allocation is AllocationProfile {
+  if (!allocation) return false;
+  const { needs, wants, savings } = allocation;
+  if ([needs, wants, savings].some((value) => typeof value !== 'number' || value < 0)) {
+    return false;
+  }
+  return allocationTotal(allocation as AllocationProfile) === 100;
+}
+
+export function matchAllocationPreset(needs: number, wants: number, savings: number): AllocationPresetId {
+  const match = Object.values(ALLOCATION_PRESETS).find(
+    (preset) => preset.needs === needs && preset.wants === wants && preset.savings === savings
+  );
+  return match ? match.preset : 'custom';
+}
+
+// Falls back to the default split if the stored profile is missing or corrupt.
+export function resolveAllocation(allocation?: Partial<AllocationProfile> | null): AllocationProfile {
+  return isValidAllocation(allocation) ? allocation : DEFAULT_ALLOCATION;
+}
+
+export function getAllocationPercent(allocation: AllocationProfile, category: ExpenseCategory) {
+  switch (category) {
+    case 'Needs':
+      return allocation.needs;
+    case 'Wants':
+      return allocation.wants;
+    case 'Savings':
+      return allocation.savings;
+  }
+}
+
+export function getAllocatedAmount(income: number, allocation: AllocationProfile, category: ExpenseCategory) {
+  return (income * getAllocationPercent(allocation, category)) / 100;
+}
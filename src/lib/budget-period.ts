@@ -0,0 +1,44 @@
+import { addMonths, format } from 'date-fns';
+import type { BudgetPeriod } from './types';
+
+// Start days are capped at 28 so every month has a matching day.
+export const MIN_PERIOD_START_DAY = 1;
+export const MAX_PERIOD_START_DAY = 28;
+
+export function clampPeriodStartDay(startDay?: number) {
+  if (!startDay || Number.isNaN(startDay)) return MIN_PERIOD_START_DAY;
+  return Math.min(Math.max(Math.floor(startDay), MIN_PERIOD_START_DAY), MAX_PERIOD_START_DAY);
+}
+
+/**
+ * Returns the budget period containing `date`. A period runs from `startDay`
+ * of one month up to (but not including) `startDay` of the next.
+ */
+export function getBudgetPeriod(date: Date, startDay?: number): BudgetPeriod {
+  const day = clampPeriodStartDay(startDay);
+  const monthOffset = date.getDate() >= day ? 0 : -1;
+  const start = new Date(date.getFullYear(), date.getMonth() + monthOffset, day);
+  return { start, end: addMonths(start, 1), startDay: day };
+}
+
+export function shiftBudgetPeriod(period: BudgetPeriod, months: number): BudgetPeriod {
+  const start = addMonths(period.start, months);
+  return { start, end: addMonths(start, 1), startDay: period.startDay };
+}
+
+export function isSameBudgetPeriod(a: BudgetPeriod, b: BudgetPeriod) {
+  return a.start.getTime() === b.start.getTime() && a.startDay === b.startDay;
+}
+
+export function isDateInPeriod(date: Date, period: BudgetPeriod) {
+  return date >= period.start && date < period.end;
+}
+
+export function formatBudgetPeriod(period: BudgetPeriod) {
+  // Calendar-month periods read better as just the month name.
+  if (period.startDay === 1) {
+    return format(period.start, 'MMMM yyyy');
+  }
+  const lastDay = new Date(period.end.getTime() - 1);
+  return `${format(period.start, 'MMM d')} – ${format(lastDay, 'MMM d, yyyy')}`;
+}
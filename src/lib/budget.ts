@@ -0,0 +1,44 @@
+import type { AllocationProfile, Expense, ExpenseCategory } from './types';
+import { getAllocatedAmount, getAllocationPercent } from './allocation';
+
+export const EXPENSE_CATEGORIES: ExpenseCategory[] = ['Needs', 'Wants', 'Savings'];
+
+export interface CategoryBudget {
+  category: ExpenseCategory;
+  percent: number;
+  allocated: number;
+  spent: number;
+}
+
+export interface BudgetSummary {
+  income: number;
+  categories: Record<ExpenseCategory, CategoryBudget>;
+  totalSpent: number;
+  balance: number;
+  savingsRate: number;
+}
+
+// The allocation-vs-spent math behind the dashboard cards and exported statements.
+export function getBudgetSummary(income: number, allocation: AllocationProfile, expenses: Expense[]): BudgetSummary {
+  const categories = Object.fromEntries(
+    EXPENSE_CATEGORIES.map((category) => [
+      category,
+      {
+        category,
+        percent: getAllocationPercent(allocation, category),
+        allocated: getAllocatedAmount(income, allocation, category),
+        spent: expenses.filter((e) => e.category === category).reduce((acc, e) => acc + e.amount, 0),
+      },
+    ])
+  ) as Record<ExpenseCategory, CategoryBudget>;
+
+  const totalSpent = EXPENSE_CATEGORIES.reduce((acc, category) => acc + categories[category].spent, 0);
+
+  return {
+    income,
+    categories,
+    totalSpent,
+    balance: income - totalSpent,
+    savingsRate: income > 0 ? (categories.Savings.spent / income) * 100 : 0,
+  };
+}
@@ -0,0 +1,26 @@
+// Wait for the user to stop typing before asking for a suggestion.
+export const SUGGESTION_DEBOUNCE_MS = 600;
+export const MIN_SUGGESTION_NAME_LENGTH = 3;
+
+// The most recent corrections are sent to the model as examples of how this user files things.
+export const MAX_CORRECTION_EXAMPLES = 30;
+
+export type ConfidenceLevel = 'high' | 'medium' | 'low';
+
+/**
+ * The correction document ID for an expense name, so "Netflix", "netflix " and
+ * "NETFLIX!" share one correction. Empty when the name has no letters or digits.
+ */
+export function getCorrectionId(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 100);
+}
+
+export function getConfidenceLevel(confidence: number): ConfidenceLevel {
+  if (confidence >= 0.8) return 'high';
+  if (confidence >= 0.5) return 'medium';
+  return 'low';
+}
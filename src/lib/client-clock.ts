@@ -0,0 +1,52 @@
+import { differenceInCalendarDays } from 'date-fns';
+import { parseCalendarDate, toCalendarDate } from './recurrence';
+
+/**
+ * The user's calendar day and UTC offset, sent to API routes that work in the
+ * user's days rather than the server's. Server code keeps days and periods as
+ * calendar values (local-midnight Dates, as parseCalendarDate returns) and
+ * converts them to instants only to compare with stored timestamps.
+ *
+ * The offset is the one in effect today, so across a daylight-saving change a
+ * boundary further away can be off by the hour the clocks moved.
+ */
+
+// Minutes the user's clock is behind UTC, as Date.getTimezoneOffset() reports it.
+export const MIN_TIMEZONE_OFFSET = -14 * 60;
+export const MAX_TIMEZONE_OFFSET = 12 * 60;
+
+export interface ClientClock {
+  // yyyy-MM-dd.
+  today: string;
+  timezoneOffset: number;
+}
+
+export function getClientClock(now = new Date()): ClientClock {
+  return { today: toCalendarDate(now), timezoneOffset: now.getTimezoneOffset() };
+}
+
+// The instant `hours` into a calendar day on the user's clock.
+export function toUserInstant(day: Date, timezoneOffset: number, hours = 0) {
+  return new Date(Date.UTC(day.getFullYear(), day.getMonth(), day.getDate(), hours) + timezoneOffset * 60 * 1000);
+}
+
+// The calendar day an instant falls on for the user, as a local-midnight Date.
+export function toUserDay(instant: Date, timezoneOffset: number) {
+  const shifted = new Date(instant.getTime() - timezoneOffset * 60 * 1000);
+  return new Date(shifted.getUTCFullYear(), shifted.getUTCMonth(), shifted.getUTCDate());
+}
+
+/**
+ * Fills in what the client didn't send from the server's clock. The client's
+ * day is trusted only within a day of what its offset gives, since a wrong
+ * device date shouldn't pull bills or periods weeks away.
+ */
+export function resolveClientClock(clock: Partial<ClientClock>, now = new Date()): ClientClock {
+  const timezoneOffset = clock.timezoneOffset ?? now.getTimezoneOffset();
+  const offsetToday = toCalendarDate(toUserDay(now, timezoneOffset));
+  const today =
+    clock.today && Math.abs(differenceInCalendarDays(parseCalendarDate(clock.today), parseCalendarDate(offsetToday))) <= 1
+      ? clock.today
+      : offsetToday;
+  return { today, timezoneOffset };
+}
@@ -0,0 +1,17 @@
+import type { ChatSender, ConversationMessage } from './types';
+
+// How many earlier messages go into the prompt; older turns are dropped to keep it short.
+export const MAX_HISTORY_MESSAGES = 20;
+export const MAX_CONVERSATION_TITLE_LENGTH = 60;
+
+// A new conversation is named after its first question until the user renames it.
+export function getConversationTitle(query: string) {
+  const title = query.trim().replace(/\s+/g, ' ');
+  return title.length > MAX_CONVERSATION_TITLE_LENGTH
+    ? `${title.slice(0, MAX_CONVERSATION_TITLE_LENGTH - 1).trimEnd()}…`
+    : title || 'New conversation';
+}
+
+export function getPromptHistory(messages: Pick<ConversationMessage, 'sender' | 'text'>[]): { sender: ChatSender; text: string }[] {
+  return messages.slice(-MAX_HISTORY_MESSAGES).map(({ sender, text }) => ({ sender, text }));
+}
@@ -0,0 +1,209 @@
+import { isValid, parse } from 'date-fns';
+import type { Expense } from './types';
+import { getExpenseDate } from './expenses';
+import { toCalendarDate } from './recurrence';
+
+/**
+ * Parses CSV text into rows of cells. Handles quoted cells containing
+ * commas, newlines and escaped ("") quotes, and either line ending.
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines, which bank exports like to end with.
+  return rows.filter((r) => r.some((c) => c.trim() !== ''));
+}
+
+function escapeCsvCell(value: string | number) {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// The inverse of parseCsv: quotes only the cells that need it.
+export function stringifyCsv(rows: (string | number)[][]) {
+  return rows.map((row) => row.map(escapeCsvCell).join(',')).join('\r\n');
+}
+
+// Guesses the delimiter from the header line; some European banks use semicolons.
+export function detectDelimiter(text: string) {
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+}
+
+export const CSV_DATE_FORMATS = ['yyyy-MM-dd', 'MM/dd/yyyy', 'dd/MM/yyyy', 'dd.MM.yyyy', 'dd-MM-yyyy'] as const;
+export type CsvDateFormat = (typeof CSV_DATE_FORMATS)[number];
+
+export function parseCsvDate(value: string, dateFormat: CsvDateFormat) {
+  const parsed = parse(value.trim(), dateFormat, new Date());
+  return isValid(parsed) ? parsed : null;
+}
+
+/**
+ * Parses a bank amount such as "1,234.56", "(12.00)", "-€5" or "12,50".
+ * A trailing ",dd" is treated as a decimal comma.
+ */
+export function parseCsvAmount(value: string) {
+  let text = value.trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.includes('-')) negative = true;
+
+  text = text.replace(/[^\d.,]/g, '');
+  if (/,\d{1,2}$/.test(text)) {
+    text = text.replace(/\./g, '').replace(',', '.');
+  } else {
+    text = text.replace(/,/g, '');
+  }
+
+  const amount = parseFloat(text);
+  if (Number.isNaN(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+export type CsvSignConvention = 'negative-is-debit' | 'positive-is-debit' | 'separate-columns';
+
+export interface CsvColumnMapping {
+  date: number;
+  description: number;
+  amount: number;
+  // Only used with separate debit/credit columns.
+  credit?: number;
+  dateFormat: CsvDateFormat;
+  signConvention: CsvSignConvention;
+}
+
+export interface CsvTransaction {
+  row: number;
+  date: Date;
+  description: string;
+  amount: number;
+  isDebit: boolean;
+}
+
+export interface CsvParseIssue {
+  row: number;
+  message: string;
+}
+
+// Turns mapped rows into transactions. `rows` excludes the header; row numbers are 1-based data rows.
+export function mapCsvRows(rows: string[][], mapping: CsvColumnMapping) {
+  const transactions: CsvTransaction[] = [];
+  const issues: CsvParseIssue[] = [];
+
+  rows.forEach((cells, index) => {
+    const row = index + 1;
+    const date = parseCsvDate(cells[mapping.date] ?? '', mapping.dateFormat);
+    if (!date) {
+      issues.push({ row, message: `Could not read date "${cells[mapping.date] ?? ''}".` });
+      return;
+    }
+
+    const description = (cells[mapping.description] ?? '').trim();
+    if (!description) {
+      issues.push({ row, message: 'Description is empty.' });
+      return;
+    }
+
+    let signedAmount: number | null;
+    if (mapping.signConvention === 'separate-columns') {
+      const debit = parseCsvAmount(cells[mapping.amount] ?? '');
+      const credit = mapping.credit !== undefined ? parseCsvAmount(cells[mapping.credit] ?? '') : null;
+      signedAmount = debit ? -Math.abs(debit) : credit ? Math.abs(credit) : null;
+    } else {
+      const raw = parseCsvAmount(cells[mapping.amount] ?? '');
+      signedAmount = raw === null ? null : mapping.signConvention === 'negative-is-debit' ? raw : -raw;
+    }
+
+    if (signedAmount === null || signedAmount === 0) {
+      issues.push({ row, message: `Could not read amount "${cells[mapping.amount] ?? ''}".` });
+      return;
+    }
+
+    transactions.push({
+      row,
+      date,
+      description,
+      amount: Math.abs(signedAmount),
+      isDebit: signedAmount < 0,
+    });
+  });
+
+  return { transactions, issues };
+}
+
+function duplicateKey(date: Date, name: string, amount: number) {
+  return `${toCalendarDate(date)}|${name.trim().toLowerCase()}|${amount.toFixed(2)}`;
+}
+
+// Flags transactions that match an existing expense on day, name and amount.
+export function findDuplicateRows(transactions: CsvTransaction[], existing: Expense[]) {
+  const existingKeys = new Set(
+    existing.map((expense) => duplicateKey(getExpenseDate(expense), expense.name, expense.amount))
+  );
+  return new Set(
+    transactions
+      .filter((t) => existingKeys.has(duplicateKey(t.date, t.description, t.amount)))
+      .map((t) => t.row)
+  );
+}
+
+// Picks likely columns from common bank export headers.
+export function guessCsvMapping(header: string[]): Partial<CsvColumnMapping> {
+  const find = (patterns: RegExp[]) => {
+    const index = header.findIndex((h) => patterns.some((p) => p.test(h.trim())));
+    return index === -1 ? undefined : index;
+  };
+  return {
+    date: find([/date/i, /posted/i]),
+    description: find([/desc/i, /narration/i, /details/i, /payee/i, /merchant/i, /memo/i, /name/i]),
+    amount: find([/amount/i, /debit/i, /withdrawal/i, /value/i]),
+    credit: find([/credit/i, /deposit/i]),
+  };
+}
@@ -1,20 +1,80 @@
-export function formatCurrency(amount: number, currency = 'USD') {
+import type { Currency } from './types';
+
+// Active ISO 4217 currency codes (funds, metals and testing codes excluded).
+export const CURRENCY_CODES = [
+  'AED', 'AFN', 'ALL', 'AMD', 'ANG', 'AOA', 'ARS', 'AUD', 'AWG', 'AZN',
+  'BAM', 'BBD', 'BDT', 'BGN', 'BHD', 'BIF', 'BMD', 'BND', 'BOB', 'BRL',
+  'BSD', 'BTN', 'BWP', 'BYN', 'BZD', 'CAD', 'CDF', 'CHF', 'CLP', 'CNY',
+  'COP', 'CRC', 'CUP', 'CVE', 'CZK', 'DJF', 'DKK', 'DOP', 'DZD', 'EGP',
+  'ERN', 'ETB', 'EUR', 'FJD', 'FKP', 'GBP', 'GEL', 'GHS', 'GIP', 'GMD',
+  'GNF', 'GTQ', 'GYD', 'HKD', 'HNL', 'HTG', 'HUF', 'IDR', 'ILS', 'INR',
+  'IQD', 'IRR', 'ISK', 'JMD', 'JOD', 'JPY', 'KES', 'KGS', 'KHR', 'KMF',
+  'KPW', 'KRW', 'KWD', 'KYD', 'KZT', 'LAK', 'LBP', 'LKR', 'LRD', 'LSL',
+  'LYD', 'MAD', 'MDL', 'MGA', 'MKD', 'MMK', 'MNT', 'MOP', 'MRU', 'MUR',
+  'MVR', 'MWK', 'MXN', 'MYR', 'MZN', 'NAD', 'NGN', 'NIO', 'NOK', 'NPR',
+  'NZD', 'OMR', 'PAB', 'PEN', 'PGK', 'PHP', 'PKR', 'PLN', 'PYG', 'QAR',
+  'RON', 'RSD', 'RUB', 'RWF', 'SAR', 'SBD', 'SCR', 'SDG', 'SEK', 'SGD',
+  'SHP', 'SLE', 'SOS', 'SRD', 'SSP', 'STN', 'SVC', 'SYP', 'SZL', 'THB',
+  'TJS', 'TMT', 'TND', 'TOP', 'TRY', 'TTD', 'TWD', 'TZS', 'UAH', 'UGX',
+  'USD', 'UYU', 'UZS', 'VES', 'VND', 'VUV', 'WST', 'XAF', 'XCD', 'XCG',
+  'XOF', 'XPF', 'YER', 'ZAR', 'ZMW', 'ZWG',
+] as const;
+
+export const CURRENCIES: readonly Currency[] = CURRENCY_CODES;
+
+export function isCurrency(code: string): code is Currency {
+  return (CURRENCY_CODES as readonly string[]).includes(code);
+}
+
+export const DEFAULT_LOCALE = 'en-US';
+
+// Locales offered in settings; the locale decides digit grouping, symbol placement and separators.
+export const SUPPORTED_LOCALES = [
+  { value: 'en-US', label: 'English (United States)' },
+  { value: 'en-GB', label: 'English (United Kingdom)' },
+  { value: 'en-IN', label: 'English (India)' },
+  { value: 'hi-IN', label: 'हिन्दी (भारत)' },
+  { value: 'en-CA', label: 'English (Canada)' },
+  { value: 'en-AU', label: 'English (Australia)' },
+  { value: 'de-DE', label: 'Deutsch (Deutschland)' },
+  { value: 'fr-FR', label: 'Français (France)' },
+  { value: 'es-ES', label: 'Español (España)' },
+  { value: 'es-MX', label: 'Español (México)' },
+  { value: 'it-IT', label: 'Italiano (Italia)' },
+  { value: 'nl-NL', label: 'Nederlands (Nederland)' },
+  { value: 'pt-BR', label: 'Português (Brasil)' },
+  { value: 'ja-JP', label: '日本語 (日本)' },
+  { value: 'zh-CN', label: '中文 (中国)' },
+  { value: 'ko-KR', label: '한국어 (대한민국)' },
+] as const;
+
+// e.g. "INR — Indian Rupee"; falls back to the bare code where names aren't available.
+export function getCurrencyLabel(currency: Currency, locale = DEFAULT_LOCALE) {
+  try {
+    const name = new Intl.DisplayNames([locale], { type: 'currency' }).of(currency);
+    return name && name !== currency ? `${currency} — ${name}` : currency;
+  } catch {
+    return currency;
+  }
+}
+
+/**
+ * Formats an amount with the currency's own number of decimals (none for
+ * JPY, three for BHD) and the locale's grouping, so en-IN gives ₹1,00,000.00.
+ */
+export function formatCurrency(amount: number, currency = 'USD', locale = DEFAULT_LOCALE) {
   // Use a try-catch block to handle unsupported currency codes gracefully.
   try {
-    return new Intl.NumberFormat('en-US', {
+    return new Intl.NumberFormat(locale, {
       style: 'currency',
       currency,
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
     }).format(amount);
   } catch (error) {
-    // If the currency code is invalid, default to USD with a warning.
-    console.warn(`Invalid or unsupported currency code: ${currency}. Defaulting to USD.`);
-    return new Intl.NumberFormat('en-US', {
+    // If the currency code or locale is invalid, default to USD in en-US with a warning.
+    console.warn(`Invalid or unsupported currency code or locale: ${currency}, ${locale}. Defaulting to USD.`);
+    return new Intl.NumberFormat(DEFAULT_LOCALE, {
       style: 'currency',
       currency: 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
     }).format(amount);
   }
 }
@@ -0,0 +1,77 @@
+import { z } from 'zod';
+import type { Currency, ExchangeRateTable } from './types';
+import { isCurrency } from './currency';
+
+// Anything stored with an amount: expenses, incomes and recurring expenses.
+interface PricedItem {
+  amount: number;
+  currency?: Currency | null;
+}
+
+// Records written before amounts carried a currency are in the user's base currency.
+export function getExpenseCurrency(item: { currency?: Currency | null }, baseCurrency: Currency) {
+  return item.currency || baseCurrency;
+}
+
+// How many `to` one unit of `from` buys, or null if the table doesn't cover both.
+export function getExchangeRate(table: ExchangeRateTable | undefined, from: Currency, to: Currency) {
+  if (from === to) return 1;
+  if (!table) return null;
+  const fromRate = from === table.base ? 1 : table.rates[from];
+  const toRate = to === table.base ? 1 : table.rates[to];
+  if (!fromRate || !toRate) return null;
+  return toRate / fromRate;
+}
+
+export function convertAmount(amount: number, from: Currency, to: Currency, table?: ExchangeRateTable) {
+  const rate = getExchangeRate(table, from, to);
+  return rate === null ? null : amount * rate;
+}
+
+/**
+ * Restates amounts in the base currency so they can be summed. Items in a
+ * currency with no stored rate are kept at face value and reported in
+ * `missingRates` so the UI can flag the totals as approximate.
+ */
+export function toBaseCurrency<T extends PricedItem>(items: T[], baseCurrency: Currency, table?: ExchangeRateTable) {
+  const missingRates = new Set<Currency>();
+  const converted = items.map((item) => {
+    const currency = getExpenseCurrency(item, baseCurrency);
+    const amount = convertAmount(item.amount, currency, baseCurrency, table);
+    if (amount === null) {
+      missingRates.add(currency);
+      return item;
+    }
+    return { ...item, amount, currency: baseCurrency };
+  });
+  return { items: converted, missingRates: Array.from(missingRates) };
+}
+
+// The common `{ "base": "USD", "rates": { "EUR": 0.92, ... } }` shape most rate feeds export.
+const RatesFileSchema = z.object({
+  base: z.string(),
+  rates: z.record(z.number().positive()),
+});
+
+// Parses a rates JSON file, dropping anything that isn't an ISO 4217 currency.
+export function parseExchangeRatesFile(text: string): ExchangeRateTable | null {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    return null;
+  }
+
+  const parsed = RatesFileSchema.safeParse(json);
+  if (!parsed.success) return null;
+
+  const base = parsed.data.base.toUpperCase();
+  if (!isCurrency(base)) return null;
+
+  const rates: ExchangeRateTable['rates'] = {};
+  for (const [code, rate] of Object.entries(parsed.data.rates)) {
+    const upper = code.toUpperCase();
+    if (isCurrency(upper) && upper !== base) rates[upper] = rate;
+  }
+  return { base, rates };
+}
@@ -0,0 +1,17 @@
+import type { Expense } from './types';
+
+/**
+ * The date the transaction happened. Older expenses were recorded before
+ * `date` existed, so fall back to when they were created.
+ */
+export function getExpenseDate(expense: Pick<Expense, 'date' | 'createdAt'>): Date {
+  return expense.date?.toDate?.() ?? expense.createdAt?.toDate?.() ?? new Date();
+}
+
+// Puts `day` on the calendar while keeping the time of day from `time`,
+// so expenses logged on the same day keep the order they were entered in.
+export function withTimeOfDay(day: Date, time: Date = new Date()) {
+  const combined = new Date(time);
+  combined.setFullYear(day.getFullYear(), day.getMonth(), day.getDate());
+  return combined;
+}
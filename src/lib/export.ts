@@ -0,0 +1,63 @@
+import type { BudgetPeriod, Currency, Expense, Subcategory } from './types';
+import { getExpenseDate } from './expenses';
+import { findSubcategory } from './subcategories';
+import { stringifyCsv } from './csv';
+import { toCalendarDate } from './recurrence';
+import { getExpenseCurrency } from './exchange-rates';
+
+export type ExportFormat = 'csv' | 'json';
+// Reports download as Markdown; expenses only export as CSV or JSON.
+export type DownloadFormat = ExportFormat | 'md';
+
+const EXPORT_MIME_TYPES: Record<DownloadFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+  md: 'text/markdown;charset=utf-8',
+};
+
+// Expenses as plain JSON: Firestore timestamps become ISO strings.
+export function toExportRecords(expenses: Expense[], subcategories: Subcategory[], currency: Currency) {
+  return expenses.map((expense) => ({
+    id: expense.id,
+    date: getExpenseDate(expense).toISOString(),
+    name: expense.name,
+    amount: expense.amount,
+    currency: getExpenseCurrency(expense, currency),
+    category: expense.category,
+    subcategoryId: expense.subcategoryId ?? null,
+    subcategory: findSubcategory(subcategories, expense.subcategoryId)?.name ?? null,
+    recurringExpenseId: expense.recurringExpenseId ?? null,
+    createdAt: expense.createdAt?.toDate().toISOString() ?? null,
+  }));
+}
+
+export function toExpenseCsv(expenses: Expense[], subcategories: Subcategory[], currency: Currency) {
+  const header = ['Date', 'Name', 'Category', 'Subcategory', 'Amount', 'Currency'];
+  const rows = toExportRecords(expenses, subcategories, currency).map((record) => [
+    toCalendarDate(new Date(record.date)),
+    record.name,
+    record.category,
+    record.subcategory ?? '',
+    record.amount.toFixed(2),
+    record.currency,
+  ]);
+  return stringifyCsv([header, ...rows]);
+}
+
+export function toExpenseJson(expenses: Expense[], subcategories: Subcategory[], currency: Currency) {
+  return JSON.stringify(toExportRecords(expenses, subcategories, currency), null, 2);
+}
+
+export function getExportFilename(period: BudgetPeriod, format: ExportFormat) {
+  return `spendsense-expenses-${toCalendarDate(period.start)}.${format}`;
+}
+
+// Hands the browser a generated file to save.
+export function downloadFile(content: string, filename: string, format: DownloadFormat) {
+  const url = URL.createObjectURL(new Blob([content], { type: EXPORT_MIME_TYPES[format] }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,85 @@
+import { addDays, differenceInCalendarDays, differenceInCalendarMonths, startOfDay } from 'date-fns';
+import type { Currency, ExchangeRateTable, Expense, SavingsGoal } from './types';
+import { getExpenseDate } from './expenses';
+import { toBaseCurrency } from './exchange-rates';
+import { parseCalendarDate } from './recurrence';
+
+export type GoalStatus = 'complete' | 'on-track' | 'behind' | 'overdue' | 'not-started';
+
+export const GOAL_STATUS_LABELS: Record<GoalStatus, string> = {
+  complete: 'Reached',
+  'on-track': 'On track',
+  behind: 'Behind',
+  overdue: 'Overdue',
+  'not-started': 'Not started',
+};
+
+export interface GoalProgress {
+  saved: number;
+  remaining: number;
+  percent: number;
+  // When the goal is reached at the pace so far; null until there is a pace to project from.
+  projectedDate: Date | null;
+  // What each remaining month needs to hold to finish on time.
+  requiredMonthly: number;
+  status: GoalStatus;
+}
+
+// Restates goal targets in the base currency so they compare with converted contributions.
+export function toBaseGoals(goals: SavingsGoal[], baseCurrency: Currency, table?: ExchangeRateTable) {
+  const { items, missingRates } = toBaseCurrency(
+    goals.map((goal) => ({ ...goal, amount: goal.targetAmount })),
+    baseCurrency,
+    table
+  );
+  return { goals: items.map(({ amount, ...goal }) => ({ ...goal, targetAmount: amount })), missingRates };
+}
+
+export function getGoalContributions(goal: SavingsGoal, expenses: Expense[]) {
+  return expenses.filter((expense) => expense.goalId === goal.id && expense.category === 'Savings');
+}
+
+/**
+ * Measures a goal against its contributions (already in the base currency).
+ * The pace is the average saved per day since the first contribution, or
+ * since the goal was created if that is earlier.
+ */
+export function getGoalProgress(goal: SavingsGoal, contributions: Expense[], today = new Date()): GoalProgress {
+  const saved = contributions.reduce((acc, expense) => acc + expense.amount, 0);
+  const remaining = Math.max(goal.targetAmount - saved, 0);
+  const percent = goal.targetAmount > 0 ? Math.min((saved / goal.targetAmount) * 100, 100) : 100;
+  const targetDate = parseCalendarDate(goal.targetDate);
+  const day = startOfDay(today);
+
+  const monthsLeft = Math.max(differenceInCalendarMonths(targetDate, day), 1);
+  const requiredMonthly = remaining / monthsLeft;
+
+  if (remaining === 0) {
+    return { saved, remaining, percent, projectedDate: null, requiredMonthly: 0, status: 'complete' };
+  }
+
+  if (differenceInCalendarDays(targetDate, day) < 0) {
+    return { saved, remaining, percent, projectedDate: null, requiredMonthly: remaining, status: 'overdue' };
+  }
+
+  if (saved <= 0) {
+    return { saved, remaining, percent, projectedDate: null, requiredMonthly, status: 'not-started' };
+  }
+
+  const firstContribution = contributions
+    .map(getExpenseDate)
+    .reduce((earliest, date) => (date < earliest ? date : earliest), goal.createdAt?.toDate?.() ?? day);
+  // Count at least one day so a same-day contribution doesn't divide by zero.
+  const daysElapsed = Math.max(differenceInCalendarDays(day, firstContribution), 1);
+  const dailyPace = saved / daysElapsed;
+  const projectedDate = addDays(day, Math.ceil(remaining / dailyPace));
+
+  return {
+    saved,
+    remaining,
+    percent,
+    projectedDate,
+    requiredMonthly,
+    status: projectedDate <= targetDate ? 'on-track' : 'behind',
+  };
+}
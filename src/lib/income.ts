@@ -0,0 +1,19 @@
+import type { BudgetPeriod, Income } from './types';
+
+// One-off income counts in the period it was received; recurring income in every period it was active.
+export function isIncomeInPeriod(income: Income, period: BudgetPeriod) {
+  const date = income.date.toDate();
+  if (!income.recurring) {
+    return date >= period.start && date < period.end;
+  }
+  const endDate = income.endDate?.toDate();
+  return date < period.end && (!endDate || endDate >= period.start);
+}
+
+export function getPeriodIncomes(incomes: Income[], period: BudgetPeriod) {
+  return incomes.filter((income) => isIncomeInPeriod(income, period));
+}
+
+export function getPeriodIncome(incomes: Income[], period: BudgetPeriod) {
+  return getPeriodIncomes(incomes, period).reduce((acc, income) => acc + income.amount, 0);
+}
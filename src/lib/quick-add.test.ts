@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseQuickAdd } from '@/lib/quick-add';
+
+// A Monday.
+const TODAY = new Date(2026, 9, 19);
+
+describe('parseQuickAdd', () => {
+  it('reads full weekday names as dates', () => {
+    assert.deepEqual(parseQuickAdd('groceries 40 saturday', TODAY), {
+      name: 'Groceries',
+      amount: 40,
+      date: '2026-10-17',
+      source: 'parser',
+    });
+  });
+
+  it('reads weekday abbreviations as dates only after "on" or "last"', () => {
+    assert.equal(parseQuickAdd('taxi 18 on fri', TODAY)?.date, '2026-10-16');
+    assert.equal(parseQuickAdd('lunch 12 last mon', TODAY)?.date, '2026-10-12');
+  });
+
+  it('keeps weekday abbreviations that are part of the name', () => {
+    assert.deepEqual(parseQuickAdd('sun cream 12', TODAY), {
+      name: 'Sun cream',
+      amount: 12,
+      date: '2026-10-19',
+      source: 'parser',
+    });
+    assert.equal(parseQuickAdd('sat nav 90', TODAY)?.name, 'Sat nav');
+    assert.equal(parseQuickAdd('wed dinner 35 wants', TODAY)?.name, 'Wed dinner');
+  });
+});
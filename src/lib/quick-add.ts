@@ -0,0 +1,152 @@
+import { getDaysInMonth, subDays, subMonths } from 'date-fns';
+import type { Currency, ExpenseCategory } from './types';
+import { isCurrency } from './currency';
+import { isCalendarDate, parseCalendarDate, toCalendarDate } from './recurrence';
+
+export const MAX_QUICK_ADD_LENGTH = 200;
+
+// A quick-add line read into expense fields. Missing fields fall back to the form's defaults.
+export interface ParsedExpense {
+  name: string;
+  amount: number;
+  currency?: Currency;
+  category?: ExpenseCategory;
+  // yyyy-MM-dd.
+  date: string;
+  // 'ai' when the line didn't match a known pattern and the model read it.
+  source: 'parser' | 'ai';
+}
+
+const CATEGORY_WORDS: Record<string, ExpenseCategory> = {
+  need: 'Needs',
+  needs: 'Needs',
+  want: 'Wants',
+  wants: 'Wants',
+  saving: 'Savings',
+  savings: 'Savings',
+};
+
+// "$" is left to the default currency; it's shared by too many currencies to guess.
+const CURRENCY_SYMBOLS: Record<string, Currency> = {
+  '€': 'EUR',
+  '£': 'GBP',
+  '₹': 'INR',
+  '¥': 'JPY',
+};
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const AMOUNT_PATTERN = /^([$€£₹¥])?(\d+(?:[.,]\d{1,2})?)([$€£₹¥])?$/;
+const ORDINAL_PATTERN = /^(\d{1,2})(st|nd|rd|th)$/;
+
+// "sat" or "wed" alone is as likely part of the name ("sat nav", "wed dinner"),
+// so abbreviations only count as days after "on" or "last".
+function findWeekday(word: string, previousWord: string | undefined) {
+  const allowAbbreviation = previousWord === 'on' || previousWord === 'last';
+  return WEEKDAYS.findIndex((day) => word === day || (allowAbbreviation && word === day.slice(0, 3)));
+}
+
+// The most recent `weekday` on or before today, or strictly before it after "last".
+function getPastWeekday(weekday: number, today: Date, strictlyBefore: boolean) {
+  let daysBack = (today.getDay() - weekday + 7) % 7;
+  if (daysBack === 0 && strictlyBefore) daysBack = 7;
+  return subDays(today, daysBack);
+}
+
+// "1st" is this month's 1st, or last month's if that's still to come.
+function getPastDayOfMonth(day: number, today: Date) {
+  const month = day > today.getDate() ? subMonths(today, 1) : today;
+  return new Date(month.getFullYear(), month.getMonth(), Math.min(day, getDaysInMonth(month)));
+}
+
+function readDate(word: string, previousWord: string | undefined, today: Date) {
+  if (word === 'today') return today;
+  if (word === 'yesterday') return subDays(today, 1);
+  if (isCalendarDate(word)) {
+    const date = parseCalendarDate(word);
+    return date <= today ? date : null;
+  }
+  const ordinal = word.match(ORDINAL_PATTERN);
+  if (ordinal) {
+    const day = Number(ordinal[1]);
+    return day >= 1 && day <= 31 ? getPastDayOfMonth(day, today) : null;
+  }
+  const weekday = findWeekday(word, previousWord);
+  return weekday === -1 ? null : getPastWeekday(weekday, today, previousWord === 'last');
+}
+
+/**
+ * Reads lines like "coffee 4.50 yesterday wants" or "rent 1200 needs 1st".
+ * Returns null when there's no name, no amount, or more than one number that
+ * could be the amount, so the caller can fall back to the model.
+ */
+export function parseQuickAdd(text: string, today = new Date()): ParsedExpense | null {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  const used = new Set<number>();
+  let category: ExpenseCategory | undefined;
+  let date: Date | undefined;
+  let currency: Currency | undefined;
+  const amounts: { index: number; amount: number; currency?: Currency }[] = [];
+
+  words.forEach((original, index) => {
+    const word = original.toLowerCase().replace(/[,;]+$/, '');
+    const previousWord = words[index - 1]?.toLowerCase();
+
+    if (!category && CATEGORY_WORDS[word]) {
+      category = CATEGORY_WORDS[word];
+      used.add(index);
+      return;
+    }
+
+    if (!date) {
+      const parsedDate = readDate(word, previousWord, today);
+      if (parsedDate) {
+        date = parsedDate;
+        used.add(index);
+        // "on the 1st", "last friday"
+        if (previousWord === 'on' || previousWord === 'last') used.add(index - 1);
+        if (previousWord === 'the') {
+          used.add(index - 1);
+          if (words[index - 2]?.toLowerCase() === 'on') used.add(index - 2);
+        }
+        return;
+      }
+    }
+
+    const amountMatch = word.match(AMOUNT_PATTERN);
+    if (amountMatch) {
+      const symbol = amountMatch[1] || amountMatch[3];
+      amounts.push({
+        index,
+        amount: parseFloat(amountMatch[2].replace(',', '.')),
+        currency: symbol ? CURRENCY_SYMBOLS[symbol] : undefined,
+      });
+    }
+  });
+
+  if (amounts.length !== 1 || amounts[0].amount <= 0) return null;
+  const [{ index: amountIndex, amount, currency: symbolCurrency }] = amounts;
+  used.add(amountIndex);
+  currency = symbolCurrency;
+
+  // A currency code only counts right next to the amount, so names like "top up" stay intact.
+  for (const index of [amountIndex + 1, amountIndex - 1]) {
+    const code = words[index]?.toUpperCase();
+    if (!currency && code && !used.has(index) && isCurrency(code)) {
+      currency = code;
+      used.add(index);
+    }
+  }
+
+  const name = words.filter((_, index) => !used.has(index)).join(' ');
+  if (!name) return null;
+
+  return {
+    name: name.charAt(0).toUpperCase() + name.slice(1),
+    amount,
+    ...(currency ? { currency } : {}),
+    ...(category ? { category } : {}),
+    date: toCalendarDate(date ?? today),
+    source: 'parser',
+  };
+}
@@ -0,0 +1,97 @@
+import type { Currency } from './types';
+import { isCurrency } from './currency';
+import { isCalendarDate } from './recurrence';
+
+// Photos are scaled down before upload; receipts stay legible well below phone camera resolution.
+export const RECEIPT_MAX_DIMENSION = 1600;
+export const RECEIPT_QUALITY = 0.85;
+// Checked before resizing, and enforced again by the storage rules.
+export const MAX_RECEIPT_BYTES = 10 * 1024 * 1024;
+// A data URI of a resized receipt is far smaller; anything larger didn't come from the app.
+export const MAX_RECEIPT_DATA_URI_LENGTH = 4 * 1024 * 1024;
+
+export const RECEIPT_DATA_URI_PATTERN = /^data:image\/(jpeg|png|webp);base64,[A-Za-z0-9+/=]+$/;
+
+// What could be read off a receipt; each field is left out when it couldn't be.
+export interface ReceiptExtraction {
+  merchant?: string;
+  amount?: number;
+  currency?: Currency;
+  // yyyy-MM-dd.
+  date?: string;
+}
+
+// What the model read, before it is checked.
+export interface ReceiptReading {
+  merchant?: string;
+  total?: number;
+  currency?: string;
+  date?: string;
+}
+
+// Keeps only the fields that would pass the expense form; `today` is yyyy-MM-dd.
+export function toReceiptExtraction(reading: ReceiptReading | null | undefined, today: string): ReceiptExtraction {
+  const merchant = reading?.merchant?.trim();
+  const total = reading?.total;
+  const currency = reading?.currency?.toUpperCase();
+  const date = reading?.date;
+  return {
+    ...(merchant ? { merchant } : {}),
+    ...(typeof total === 'number' && total > 0 ? { amount: Math.round(total * 100) / 100 } : {}),
+    ...(currency && isCurrency(currency) ? { currency } : {}),
+    // Expenses can't be in the future, so a misread date is dropped.
+    ...(date && isCalendarDate(date) && date <= today ? { date } : {}),
+  };
+}
+
+// Storage path for a receipt image, under the user's uid so the storage rules can check ownership.
+export function getReceiptPath(uid: string, id: string) {
+  return `users/${uid}/receipts/${id}.jpg`;
+}
+
+export function isReceiptFile(file: File) {
+  return file.type.startsWith('image/') && file.size <= MAX_RECEIPT_BYTES;
+}
+
+function loadImage(file: File) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not read the image.'));
+    };
+    image.src = url;
+  });
+}
+
+// Scales a photo to fit RECEIPT_MAX_DIMENSION and re-encodes it as JPEG. Browser only.
+export async function resizeReceiptImage(file: File): Promise<Blob> {
+  const image = await loadImage(file);
+  const scale = Math.min(1, RECEIPT_MAX_DIMENSION / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(image.width * scale);
+  canvas.height = Math.round(image.height * scale);
+  canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Could not process the image.'))),
+      'image/jpeg',
+      RECEIPT_QUALITY
+    );
+  });
+}
+
+export function blobToDataUri(blob: Blob) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
@@ -0,0 +1,103 @@
+import { addDays, addWeeks, addYears, format, getDaysInMonth } from 'date-fns';
+import type { RecurrenceSchedule, RecurringExpense } from './types';
+
+// Guards against runaway loops for very old or very frequent schedules.
+const MAX_OCCURRENCES = 1000;
+
+export function toCalendarDate(date: Date) {
+  return format(date, 'yyyy-MM-dd');
+}
+
+// Parses a yyyy-MM-dd calendar day as local midnight.
+export function parseCalendarDate(value: string) {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// Rejects impossible days like 2026-02-30, which Date would roll over into March.
+export function isCalendarDate(value: string) {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && toCalendarDate(parseCalendarDate(value)) === value;
+}
+
+function nthOccurrence(schedule: RecurrenceSchedule, start: Date, n: number) {
+  const interval = Math.max(1, Math.floor(schedule.interval || 1));
+  switch (schedule.frequency) {
+    case 'weekly':
+      return addWeeks(start, n * interval);
+    case 'yearly':
+      return addYears(start, n * interval);
+    case 'monthly': {
+      const month = new Date(start.getFullYear(), start.getMonth() + n * interval, 1);
+      const day = Math.min(schedule.dayOfMonth || start.getDate(), getDaysInMonth(month));
+      return new Date(month.getFullYear(), month.getMonth(), day);
+    }
+  }
+}
+
+/**
+ * Lists the calendar days (inclusive) between `from` and `to` on which the
+ * recurring expense falls due, honouring its start and end dates. Skipped
+ * days and the paused flag are left to the caller.
+ */
+export function getOccurrences(
+  recurring: Pick<RecurringExpense, 'schedule' | 'startDate' | 'endDate'>,
+  from: string,
+  to: string
+): string[] {
+  const start = parseCalendarDate(recurring.startDate);
+  const lowerBound = from > recurring.startDate ? from : recurring.startDate;
+  const upperBound = recurring.endDate && recurring.endDate < to ? recurring.endDate : to;
+  if (lowerBound > upperBound) return [];
+
+  const occurrences: string[] = [];
+  for (let n = 0; n < MAX_OCCURRENCES; n++) {
+    const occurrence = toCalendarDate(nthOccurrence(recurring.schedule, start, n));
+    if (occurrence > upperBound) break;
+    if (occurrence >= lowerBound) occurrences.push(occurrence);
+  }
+  return occurrences;
+}
+
+export function getNextOccurrenceDay(day: string) {
+  return toCalendarDate(addDays(parseCalendarDate(day), 1));
+}
+
+export interface UpcomingOccurrence {
+  recurring: RecurringExpense;
+  date: string;
+  skipped: boolean;
+}
+
+// Upcoming bills across all active recurring expenses, soonest first.
+export function getUpcomingOccurrences(recurringExpenses: RecurringExpense[], from: Date, days: number): UpcomingOccurrence[] {
+  const fromDay = toCalendarDate(from);
+  const toDay = toCalendarDate(addDays(from, days));
+
+  return recurringExpenses
+    .filter((recurring) => !recurring.paused)
+    .flatMap((recurring) =>
+      getOccurrences(recurring, fromDay, toDay)
+        // Days up to `lastOccurrence` have already been turned into expenses.
+        .filter((date) => !recurring.lastOccurrence || date > recurring.lastOccurrence)
+        .map((date) => ({
+          recurring,
+          date,
+          skipped: (recurring.skippedDates || []).includes(date),
+        }))
+    )
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+export function describeSchedule(schedule: RecurrenceSchedule) {
+  const interval = Math.max(1, schedule.interval || 1);
+  switch (schedule.frequency) {
+    case 'weekly':
+      return interval === 1 ? 'Weekly' : `Every ${interval} weeks`;
+    case 'yearly':
+      return interval === 1 ? 'Yearly' : `Every ${interval} years`;
+    case 'monthly': {
+      const day = schedule.dayOfMonth ? ` on day ${schedule.dayOfMonth}` : '';
+      return (interval === 1 ? 'Monthly' : `Every ${interval} months`) + day;
+    }
+  }
+}
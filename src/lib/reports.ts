@@ -0,0 +1,62 @@
+import type { MonthlyReport } from './types';
+import { GOAL_STATUS_LABELS } from './goals';
+
+export const REPORT_SUGGESTION_COUNT = 3;
+// Reports can be generated for periods up to two years back.
+export const MAX_REPORT_PERIODS_AGO = 24;
+
+export function getReportFilename(report: Pick<MonthlyReport, 'periodStart'>) {
+  return `spendsense-report-${report.periodStart}.md`;
+}
+
+function formatChange(change: number, formatAmount: (amount: number) => string) {
+  return `${change > 0 ? '+' : '−'}${formatAmount(Math.abs(change))}`;
+}
+
+// The report as Markdown, for the download button.
+export function toReportMarkdown(report: MonthlyReport, formatAmount: (amount: number) => string) {
+  const lines = [
+    `# Monthly Report · ${report.periodLabel}`,
+    '',
+    ...(report.isPartial ? ['_The period was still in progress when this report was generated._', ''] : []),
+    report.summary,
+    '',
+    `Income ${formatAmount(report.income)} · Spent ${formatAmount(report.totalSpent)} (previous period ${formatAmount(report.previousTotalSpent)})`,
+    '',
+    '## Categories',
+    '',
+    '| Category | Allocated | Spent | Previous period |',
+    '| --- | ---: | ---: | ---: |',
+    ...report.categories.map(
+      (c) => `| ${c.category} | ${formatAmount(c.allocated)} | ${formatAmount(c.spent)} | ${formatAmount(c.previousSpent)} |`
+    ),
+    '',
+    '## Top Changes vs Last Period',
+    '',
+    ...(report.topChanges.length > 0
+      ? report.topChanges.map(
+          (c) => `- ${c.label} (${c.category}): ${formatAmount(c.previous)} → ${formatAmount(c.current)} (${formatChange(c.change, formatAmount)})`
+        )
+      : ['- No changes.']),
+    '',
+    '## Over Allocation',
+    '',
+    ...(report.overAllocation.length > 0
+      ? report.overAllocation.map((o) => `- ${o.category}: ${formatAmount(o.spent)} of ${formatAmount(o.allocated)}, over by ${formatAmount(o.over)}`)
+      : ['- Every category stayed within its allocation.']),
+    '',
+    '## Savings Goals',
+    '',
+    ...(report.goals.length > 0
+      ? report.goals.map(
+          (g) => `- ${g.name}: ${formatAmount(g.saved)} of ${formatAmount(g.target)} (${g.percent}%), ${GOAL_STATUS_LABELS[g.status].toLowerCase()}`
+        )
+      : ['- No savings goals.']),
+    '',
+    '## Suggestions',
+    '',
+    ...report.suggestions.map((s, i) => `${i + 1}. **${s.title}** ${s.detail}`),
+    '',
+  ];
+  return lines.join('\n');
+}
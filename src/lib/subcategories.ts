@@ -0,0 +1,65 @@
+import {
+  Car,
+  Coffee,
+  Dumbbell,
+  Film,
+  Gift,
+  GraduationCap,
+  HeartPulse,
+  Home,
+  Landmark,
+  PiggyBank,
+  Plane,
+  Shirt,
+  ShoppingCart,
+  Smartphone,
+  Tag,
+  Utensils,
+  Zap,
+  type LucideIcon,
+} from 'lucide-react';
+import type { Subcategory } from './types';
+
+export const SUBCATEGORY_ICONS: Record<string, LucideIcon> = {
+  tag: Tag,
+  home: Home,
+  'shopping-cart': ShoppingCart,
+  utensils: Utensils,
+  coffee: Coffee,
+  car: Car,
+  zap: Zap,
+  smartphone: Smartphone,
+  'heart-pulse': HeartPulse,
+  dumbbell: Dumbbell,
+  plane: Plane,
+  film: Film,
+  shirt: Shirt,
+  'graduation-cap': GraduationCap,
+  gift: Gift,
+  'piggy-bank': PiggyBank,
+  landmark: Landmark,
+};
+
+export const SUBCATEGORY_COLORS = [
+  '#3F51B5',
+  '#2962FF',
+  '#00BFA5',
+  '#43A047',
+  '#FDD835',
+  '#FB8C00',
+  '#E53935',
+  '#D81B60',
+  '#8E24AA',
+  '#6D4C41',
+];
+
+export const DEFAULT_SUBCATEGORY_ICON = 'tag';
+
+export function getSubcategoryIcon(icon?: string): LucideIcon {
+  return (icon && SUBCATEGORY_ICONS[icon]) || SUBCATEGORY_ICONS[DEFAULT_SUBCATEGORY_ICON];
+}
+
+export function findSubcategory(subcategories: Subcategory[], id?: string | null) {
+  if (!id) return undefined;
+  return subcategories.find((subcategory) => subcategory.id === id);
+}
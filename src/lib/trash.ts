@@ -0,0 +1,13 @@
+import { subDays } from 'date-fns';
+import type { Expense } from './types';
+
+// Soft-deleted expenses stay restorable for this many days before they are purged.
+export const TRASH_RETENTION_DAYS = 30;
+
+export function isTrashed(expense: Pick<Expense, 'deletedAt'>) {
+  return !!expense.deletedAt;
+}
+
+export function getTrashCutoff(now = new Date()) {
+  return subDays(now, TRASH_RETENTION_DAYS);
+}
@@ -0,0 +1,73 @@
+import { addDays, differenceInCalendarDays, format, isBefore, startOfDay } from 'date-fns';
+import type { BudgetPeriod, Expense, ExpenseCategory, Income } from './types';
+import { EXPENSE_CATEGORIES } from './budget';
+import { isDateInPeriod, shiftBudgetPeriod } from './budget-period';
+import { getExpenseDate } from './expenses';
+import { getPeriodIncome } from './income';
+
+export const TREND_PERIOD_COUNT = 12;
+
+export type PeriodTrend = Record<ExpenseCategory, number> & {
+  label: string;
+  income: number;
+  spent: number;
+};
+
+export interface DailyBurn {
+  label: string;
+  // Undefined for days that haven't happened yet, so the line stops at today.
+  actual?: number;
+  ideal: number;
+}
+
+// The `count` periods ending with `period`, oldest first.
+export function getTrendPeriods(period: BudgetPeriod, count = TREND_PERIOD_COUNT) {
+  return Array.from({ length: count }, (_, index) => shiftBudgetPeriod(period, index - count + 1));
+}
+
+// Per-period category totals plus income, for expenses already in the base currency.
+export function getPeriodTrends(periods: BudgetPeriod[], expenses: Expense[], incomes: Income[]): PeriodTrend[] {
+  return periods.map((period) => {
+    const periodExpenses = expenses.filter((expense) => isDateInPeriod(getExpenseDate(expense), period));
+    const totals = Object.fromEntries(
+      EXPENSE_CATEGORIES.map((category) => [
+        category,
+        periodExpenses.filter((e) => e.category === category).reduce((acc, e) => acc + e.amount, 0),
+      ])
+    ) as Record<ExpenseCategory, number>;
+
+    return {
+      label: format(period.start, period.startDay === 1 ? 'MMM yy' : 'MMM d, yy'),
+      ...totals,
+      income: getPeriodIncome(incomes, period),
+      spent: EXPENSE_CATEGORIES.reduce((acc, category) => acc + totals[category], 0),
+    };
+  });
+}
+
+/**
+ * Cumulative spend for each day of the period against an ideal line that
+ * spends `budget` evenly, reaching it on the period's last day.
+ */
+export function getDailyBurn(period: BudgetPeriod, expenses: Expense[], budget: number, today = new Date()): DailyBurn[] {
+  const days = differenceInCalendarDays(period.end, period.start);
+  const todayStart = startOfDay(today);
+  let cumulative = 0;
+
+  return Array.from({ length: days }, (_, index) => {
+    const day = addDays(period.start, index);
+    const nextDay = addDays(day, 1);
+    cumulative += expenses
+      .filter((expense) => {
+        const date = getExpenseDate(expense);
+        return date >= day && date < nextDay;
+      })
+      .reduce((acc, expense) => acc + expense.amount, 0);
+
+    return {
+      label: format(day, 'MMM d'),
+      actual: isBefore(todayStart, day) ? undefined : cumulative,
+      ideal: (budget * (index + 1)) / days,
+    };
+  });
+}
@@ -1,5 +1,7 @@
 import type { User as FirebaseUser } from 'firebase/auth';
 import type { Timestamp } from 'firebase/firestore';
+import type { CURRENCY_CODES } from './currency';
+import type { GoalStatus } from './goals';
 
 export interface User extends FirebaseUser {}
 
@@ -8,18 +10,283 @@ export type ExpenseCategory = 'Needs' | 'Wants' | 'Savings';
 export interface Expense {
   id: string;
   name: string;
+  // In `currency`; older expenses have no currency and are in the user's base currency.
   amount: number;
+  currency?: Currency;
+  category: ExpenseCategory;
+  subcategoryId?: string | null;
+  // When the transaction happened; `createdAt` is only the audit timestamp.
+  date?: Timestamp;
+  createdAt: Timestamp;
+  deletedAt?: Timestamp | null;
+  recurringExpenseId?: string | null;
+  // Savings expenses can count as a contribution toward a savings goal.
+  goalId?: string | null;
+  // A receipt photo in Cloud Storage; the path is kept so the image can be deleted with the expense.
+  receiptPath?: string | null;
+  receiptUrl?: string | null;
+}
+
+export type RecurrenceFrequency = 'weekly' | 'monthly' | 'yearly';
+
+export interface RecurrenceSchedule {
+  frequency: RecurrenceFrequency;
+  // Repeat every `interval` weeks, months or years.
+  interval: number;
+  // Only used by monthly schedules; clamped to the length of short months.
+  dayOfMonth?: number;
+}
+
+// Dates are calendar days (yyyy-MM-dd) so they mean the same thing on the client and the server.
+export interface RecurringExpense {
+  id: string;
+  name: string;
+  // In `currency`, which each occurrence is recorded in; older schedules are in the base currency.
+  amount: number;
+  currency?: Currency;
+  category: ExpenseCategory;
+  subcategoryId?: string | null;
+  schedule: RecurrenceSchedule;
+  startDate: string;
+  endDate?: string | null;
+  paused: boolean;
+  skippedDates: string[];
+  // The last calendar day occurrences have been materialised up to.
+  lastOccurrence?: string | null;
+  createdAt: Timestamp;
+}
+
+export interface Subcategory {
+  id: string;
+  name: string;
+  icon: string;
+  color: string;
+  parent: ExpenseCategory;
+  createdAt: Timestamp;
+}
+
+// How the user filed an expense name after overriding the suggested category; keyed by getCorrectionId(name).
+export interface CategoryCorrection {
+  id: string;
+  name: string;
+  category: ExpenseCategory;
+  subcategoryId: string | null;
+  updatedAt: Timestamp;
+}
+
+export interface CategorySuggestion {
+  category: ExpenseCategory;
+  subcategoryId: string | null;
+  // 0 to 1.
+  confidence: number;
+  // 'correction' when the user has filed this name before, so the model wasn't asked.
+  source: 'correction' | 'model';
+}
+
+// An ISO 4217 code; anything else is rejected at compile time.
+export type Currency = (typeof CURRENCY_CODES)[number];
+
+// Units of each currency per one unit of `base`, so any two listed currencies can be crossed.
+export interface ExchangeRateTable {
+  base: Currency;
+  rates: Partial<Record<Currency, number>>;
+  updatedAt?: Timestamp;
+}
+
+export type AllocationPresetId = '50-30-20' | '70-20-10' | '60-20-20' | 'custom';
+
+// Percentages of income allocated to each category; always sums to 100.
+export interface AllocationProfile {
+  preset: AllocationPresetId;
+  needs: number;
+  wants: number;
+  savings: number;
+}
+
+// Percentages of each category's allocation that raise a notification once spending reaches them.
+export type AlertThresholds = Record<ExpenseCategory, number[]>;
+
+// An entry in the header's notification center. Budget alerts are keyed by period, category and threshold.
+export interface AppNotification {
+  id: string;
+  type: 'budget-alert';
+  title: string;
+  message: string;
   category: ExpenseCategory;
+  threshold: number;
+  // The yyyy-MM-dd start of the budget period the alert belongs to.
+  periodStart: string;
+  read: boolean;
   createdAt: Timestamp;
 }
 
-export type Currency = 'USD' | 'INR' | 'EUR';
+export interface BudgetPeriod {
+  start: Date;
+  end: Date;
+  startDay: number;
+}
+
+// `targetDate` is a yyyy-MM-dd calendar day.
+export interface SavingsGoal {
+  id: string;
+  name: string;
+  // In `currency`; older goals have no currency and are in the user's base currency.
+  targetAmount: number;
+  currency?: Currency;
+  targetDate: string;
+  createdAt: Timestamp;
+}
+
+// A one-off payment, or a recurring source that counts toward every period from `date` on.
+export interface Income {
+  id: string;
+  source: string;
+  // In `currency`; older incomes have no currency and are in the user's base currency.
+  amount: number;
+  currency?: Currency;
+  date: Timestamp;
+  recurring: boolean;
+  // Set when a recurring income is stopped; it still counts toward that period.
+  endDate?: Timestamp | null;
+  createdAt: Timestamp;
+}
+
+export type ChatSender = 'user' | 'ai';
+
+export type AdvisorActionType = 'addExpense' | 'recategorizeExpenses' | 'updateAllocation';
+export type AdvisorActionStatus = 'pending' | 'applied' | 'dismissed';
+
+// A change the advisor proposes. Nothing is written until the user applies it from the chat.
+export interface AdvisorAction {
+  type: AdvisorActionType;
+  summary: string;
+  status: AdvisorActionStatus;
+  // addExpense: amount in the base currency; `date` is a yyyy-MM-dd day, today if missing.
+  expense?: { name: string; amount: number; category: ExpenseCategory; date?: string };
+  // recategorizeExpenses
+  expenseIds?: string[];
+  category?: ExpenseCategory;
+  // updateAllocation: the full new split, summing to 100.
+  allocation?: { needs: number; wants: number; savings: number };
+}
+
+export interface ConversationMessage {
+  sender: ChatSender;
+  text: string;
+  createdAt: Timestamp;
+  // The user stopped the answer part-way through.
+  isStopped?: boolean;
+  actions?: AdvisorAction[];
+}
+
+// A saved advisor chat. Messages are written by the advisor API as each answer finishes.
+export interface Conversation {
+  id: string;
+  title: string;
+  messages: ConversationMessage[];
+  createdAt: Timestamp;
+  updatedAt: Timestamp;
+}
+
+export interface ReportCategory {
+  category: ExpenseCategory;
+  allocated: number;
+  spent: number;
+  previousSpent: number;
+}
+
+// A subcategory whose spending moved the most against the previous period.
+export interface ReportChange {
+  label: string;
+  category: ExpenseCategory;
+  previous: number;
+  current: number;
+  change: number;
+}
+
+export interface ReportOverAllocation {
+  category: ExpenseCategory;
+  allocated: number;
+  spent: number;
+  over: number;
+}
+
+export interface ReportGoal {
+  id: string;
+  name: string;
+  saved: number;
+  target: number;
+  percent: number;
+  status: GoalStatus;
+  // yyyy-MM-dd calendar days.
+  targetDate: string;
+  projectedDate: string | null;
+}
+
+export interface ReportSuggestion {
+  title: string;
+  detail: string;
+}
+
+// A generated review of one budget period, keyed by its start day. Amounts are in `currency`.
+export interface MonthlyReport {
+  id: string;
+  periodStart: string;
+  periodEnd: string;
+  periodLabel: string;
+  currency: Currency;
+  // Set when the report was generated before the period ended.
+  isPartial: boolean;
+  income: number;
+  totalSpent: number;
+  previousTotalSpent: number;
+  categories: ReportCategory[];
+  topChanges: ReportChange[];
+  overAllocation: ReportOverAllocation[];
+  goals: ReportGoal[];
+  summary: string;
+  suggestions: ReportSuggestion[];
+  createdAt: Timestamp;
+}
+
+export type AiFeature = 'advisor' | 'categorize' | 'parseExpense' | 'receipt' | 'report';
+
+export interface AiUsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// One calendar month (UTC) of AI usage, keyed by yyyy-MM. Written only by the AI routes.
+export interface AiUsage extends AiUsageTotals {
+  id: string;
+  features: Partial<Record<AiFeature, AiUsageTotals>>;
+  // Tokens used each UTC day, keyed by yyyy-MM-dd, for the daily quota.
+  dailyTokens: Record<string, number>;
+  // Times (ms) of the requests inside the rate-limit window.
+  recentRequests: number[];
+  // The same for category suggestions, which are limited separately.
+  recentSuggestionRequests?: number[];
+  updatedAt: Timestamp;
+}
 
 export interface UserData {
+  // Legacy single monthly income; period income now comes from the `incomes` subcollection.
   income: number;
   displayName?: string;
   photoURL?: string;
   currency?: Currency;
+  // BCP 47 tag used to format amounts, e.g. en-IN for lakh grouping.
+  locale?: string;
   savingsGoal?: number;
   bio?: string;
+  periodStartDay?: number;
+  allocation?: AllocationProfile;
+  alertThresholds?: AlertThresholds;
+  expenseDatesBackfilled?: boolean;
+  incomesMigrated?: boolean;
+  expenseCurrenciesBackfilled?: boolean;
+  // Incomes, savings goals and recurring expenses carry their own currency too.
+  amountCurrenciesBackfilled?: boolean;
+  exchangeRates?: ExchangeRateTable;
 }